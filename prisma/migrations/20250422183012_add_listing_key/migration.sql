@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "listing_key" TEXT;
+
+-- Backfill listing keys (see buildListingKey in src/lib/import/listing-key.ts).
+-- Earlier imports created duplicates, so only the oldest property for each key
+-- receives it; the newer copies keep a NULL key and are left for manual cleanup.
+WITH "keyed" AS (
+    SELECT
+        "id",
+        concat_ws(
+            '|',
+            coalesce("building_id", ''),
+            btrim(regexp_replace(lower("street_address"), '[^a-z0-9]+', ' ', 'g')),
+            left(regexp_replace("zipcode", '\D', '', 'g'), 5)
+        ) AS "listing_key",
+        btrim(regexp_replace(lower("street_address"), '[^a-z0-9]+', ' ', 'g')) AS "street",
+        left(regexp_replace("zipcode", '\D', '', 'g'), 5) AS "zip"
+    FROM "property"
+), "ranked" AS (
+    SELECT
+        "id",
+        "listing_key",
+        row_number() OVER (PARTITION BY "listing_key" ORDER BY "id") AS "rank"
+    FROM "keyed"
+    WHERE "street" <> '' AND "zip" <> ''
+)
+UPDATE "property"
+SET "listing_key" = "ranked"."listing_key"
+FROM "ranked"
+WHERE "property"."id" = "ranked"."id" AND "ranked"."rank" = 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_listing_key_key" ON "property"("listing_key");
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "import_batch_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "import_batch" (
+    "id" SERIAL NOT NULL,
+    "user_id" TEXT,
+    "file_name" TEXT NOT NULL,
+    "file_hash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "created_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "unchanged_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "rolled_back_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_batch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "import_batch_record" (
+    "id" SERIAL NOT NULL,
+    "batch_id" INTEGER NOT NULL,
+    "record_index" INTEGER NOT NULL,
+    "street_address" TEXT,
+    "outcome" TEXT NOT NULL,
+    "message" TEXT,
+    "property_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_batch_record_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_batch_record_batch_id_idx" ON "import_batch_record"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "property" ADD CONSTRAINT "property_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batch" ADD CONSTRAINT "import_batch_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batch_record" ADD CONSTRAINT "import_batch_record_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "import_batch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "import_batch" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'zillow';
+
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "source" TEXT;
+
+-- Everything imported so far came from Zillow search exports
+UPDATE "property" SET "source" = 'zillow';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "import_batch" ADD COLUMN     "record_count" INTEGER NOT NULL DEFAULT 0;
+
+-- Earlier batches were imported in one request, so every record was recorded
+UPDATE "import_batch"
+SET "record_count" = "created_count" + "updated_count" + "unchanged_count" + "skipped_count" + "failed_count";
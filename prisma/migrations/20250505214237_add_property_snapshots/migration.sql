@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "previous_price" DOUBLE PRECISION,
+ADD COLUMN     "price_changed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "property_snapshot" (
+    "id" SERIAL NOT NULL,
+    "property_id" INTEGER NOT NULL,
+    "import_batch_id" INTEGER,
+    "price" DOUBLE PRECISION,
+    "listing_status" TEXT,
+    "days_on_zillow" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_snapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "property_snapshot_property_id_created_at_idx" ON "property_snapshot"("property_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "property_snapshot" ADD CONSTRAINT "property_snapshot_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_snapshot" ADD CONSTRAINT "property_snapshot_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing properties start their history with the values they have now
+INSERT INTO "property_snapshot" ("property_id", "import_batch_id", "price", "listing_status", "days_on_zillow", "created_at")
+SELECT "id", "import_batch_id", "price", "listing_status", "days_on_zillow", "updated_at"
+FROM "property";
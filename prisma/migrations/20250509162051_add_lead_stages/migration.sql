@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "stage" TEXT NOT NULL DEFAULT 'new',
+ADD COLUMN     "stage_changed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "property_stage_transition" (
+    "id" SERIAL NOT NULL,
+    "property_id" INTEGER NOT NULL,
+    "from_stage" TEXT,
+    "to_stage" TEXT NOT NULL,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_stage_transition_pkey" PRIMARY KEY ("id")
+);
+
+-- Contacted leads move to the contacted stage. We don't know when they were
+-- contacted, so the last update is the best guess.
+UPDATE "property"
+SET "stage" = 'contacted', "stage_changed_at" = "updated_at"
+WHERE "contacted_agent" = true;
+
+INSERT INTO "property_stage_transition" ("property_id", "from_stage", "to_stage", "created_at")
+SELECT "id", 'new', 'contacted', "updated_at"
+FROM "property"
+WHERE "contacted_agent" = true;
+
+-- AlterTable
+ALTER TABLE "property" DROP COLUMN "contacted_agent";
+
+-- CreateIndex
+CREATE INDEX "property_stage_created_at_idx" ON "property"("stage", "created_at");
+
+-- CreateIndex
+CREATE INDEX "property_stage_transition_property_id_created_at_idx" ON "property_stage_transition"("property_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "property_stage_transition" ADD CONSTRAINT "property_stage_transition_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_stage_transition" ADD CONSTRAINT "property_stage_transition_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- Trigram matching for fuzzy search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "property_street_address_idx" ON "property" USING GIN ("street_address" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "property_city_idx" ON "property" USING GIN ("city" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "property_zipcode_idx" ON "property" USING GIN ("zipcode" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "property_display_name_idx" ON "property" USING GIN ("display_name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "property_business_name_idx" ON "property" USING GIN ("business_name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "property_notes_idx" ON "property" USING GIN ("notes" gin_trgm_ops);
+
+-- Phone numbers are matched on their digits so any formatting finds them.
+-- Must stay in sync with PHONE_DIGITS in src/lib/property-search.ts
+CREATE INDEX "property_phone_digits_idx" ON "property" USING GIN ((regexp_replace("phone_number", '\D', '', 'g')) gin_trgm_ops);
+
+-- Full-text document over the searchable fields.
+-- Must stay in sync with SEARCH_DOCUMENT in src/lib/property-search.ts
+CREATE INDEX "property_search_document_idx" ON "property" USING GIN ((
+    to_tsvector('simple'::regconfig,
+        coalesce("street_address", '') || ' ' ||
+        coalesce("city", '') || ' ' ||
+        coalesce("zipcode", '') || ' ' ||
+        coalesce("display_name", '') || ' ' ||
+        coalesce("business_name", '') || ' ' ||
+        coalesce("notes", ''))
+));
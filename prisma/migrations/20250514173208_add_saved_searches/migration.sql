@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "saved_search" (
+    "id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL DEFAULT '',
+    "filters" TEXT NOT NULL DEFAULT '',
+    "is_shared" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_search_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_search_user_id_idx" ON "saved_search"("user_id");
+
+-- CreateIndex
+CREATE INDEX "saved_search_is_shared_idx" ON "saved_search"("is_shared");
+
+-- AddForeignKey
+ALTER TABLE "saved_search" ADD CONSTRAINT "saved_search_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "property_tags_idx" ON "property" USING GIN ("tags");
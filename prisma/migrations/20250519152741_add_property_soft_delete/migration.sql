@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "property_deleted_at_idx" ON "property"("deleted_at");
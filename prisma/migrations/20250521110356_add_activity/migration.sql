@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "activity" (
+    "id" SERIAL NOT NULL,
+    "property_id" INTEGER,
+    "user_id" TEXT,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_property_id_created_at_idx" ON "activity"("property_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "activity_user_id_created_at_idx" ON "activity"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "activity_action_created_at_idx" ON "activity"("action", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "activity" ADD CONSTRAINT "activity_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "property"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity" ADD CONSTRAINT "activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
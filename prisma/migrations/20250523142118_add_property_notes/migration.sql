@@ -0,0 +1,93 @@
+-- CreateTable
+CREATE TABLE "property_note" (
+    "id" SERIAL NOT NULL,
+    "property_id" INTEGER NOT NULL,
+    "author_id" TEXT,
+    "body" TEXT NOT NULL,
+    "is_pinned" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "property_note_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "property_note_revision" (
+    "id" SERIAL NOT NULL,
+    "note_id" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "editor_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_note_revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "property_note_mention" (
+    "note_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_note_mention_pkey" PRIMARY KEY ("note_id","user_id")
+);
+
+-- CreateIndex
+CREATE INDEX "property_note_property_id_created_at_idx" ON "property_note"("property_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "property_note_body_idx" ON "property_note" USING GIN ("body" gin_trgm_ops);
+
+-- Full-text document for searching notes.
+-- Must stay in sync with NOTE_DOCUMENT in src/lib/property-search.ts
+CREATE INDEX "property_note_search_document_idx" ON "property_note" USING GIN ((
+    to_tsvector('simple'::regconfig, "body")
+));
+
+-- CreateIndex
+CREATE INDEX "property_note_revision_note_id_created_at_idx" ON "property_note_revision"("note_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "property_note_mention_user_id_created_at_idx" ON "property_note_mention"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "property_note" ADD CONSTRAINT "property_note_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_note" ADD CONSTRAINT "property_note_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_note_revision" ADD CONSTRAINT "property_note_revision_note_id_fkey" FOREIGN KEY ("note_id") REFERENCES "property_note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_note_revision" ADD CONSTRAINT "property_note_revision_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_note_mention" ADD CONSTRAINT "property_note_mention_note_id_fkey" FOREIGN KEY ("note_id") REFERENCES "property_note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "property_note_mention" ADD CONSTRAINT "property_note_mention_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each property's notes into the first note of its thread. The author
+-- of the old notes was never recorded.
+INSERT INTO "property_note" ("property_id", "body", "created_at", "updated_at")
+SELECT "id", "notes", "updated_at", "updated_at"
+FROM "property"
+WHERE "notes" IS NOT NULL AND btrim("notes") <> '';
+
+-- Notes are searched in their own table from now on
+DROP INDEX "property_search_document_idx";
+DROP INDEX "property_notes_idx";
+
+-- AlterTable
+ALTER TABLE "property" DROP COLUMN "notes";
+
+-- Full-text document over the searchable fields.
+-- Must stay in sync with SEARCH_DOCUMENT in src/lib/property-search.ts
+CREATE INDEX "property_search_document_idx" ON "property" USING GIN ((
+    to_tsvector('simple'::regconfig,
+        coalesce("street_address", '') || ' ' ||
+        coalesce("city", '') || ' ' ||
+        coalesce("zipcode", '') || ' ' ||
+        coalesce("display_name", '') || ' ' ||
+        coalesce("business_name", ''))
+));
@@ -0,0 +1,115 @@
+-- CreateTable
+CREATE TABLE "agent" (
+    "id" SERIAL NOT NULL,
+    "profile_url" TEXT,
+    "phone_key" TEXT,
+    "display_name" TEXT,
+    "business_name" TEXT,
+    "phone_number" TEXT,
+    "agent_badge_type" TEXT,
+    "photo_url" TEXT,
+    "last_contacted_at" TIMESTAMP(3),
+    "last_contacted_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "agent_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "agent_id" INTEGER;
+
+-- Backfill agents from the agent details copied onto each property (see
+-- getAgentProfileKey and getAgentPhoneKey in src/lib/agents.ts). Every
+-- profile becomes an agent, then every phone number that no agent has yet.
+-- Each agent takes the details of its most recently updated listing.
+CREATE TEMPORARY TABLE "property_agent_key" AS
+SELECT
+    "id",
+    "updated_at",
+    nullif(
+        rtrim(lower(regexp_replace(btrim("profile_url"), '^https?://(www\.)?zillow\.com', '', 'i')), '/'),
+        ''
+    ) AS "profile_key",
+    nullif(
+        regexp_replace(regexp_replace("phone_number", '\D', '', 'g'), '^1(\d{10})$', '\1'),
+        ''
+    ) AS "phone_key"
+FROM "property";
+
+INSERT INTO "agent" ("profile_url", "phone_key", "display_name", "business_name", "phone_number", "agent_badge_type", "photo_url", "updated_at")
+SELECT DISTINCT ON ("key"."profile_key")
+    "key"."profile_key",
+    "key"."phone_key",
+    "property"."display_name",
+    "property"."business_name",
+    "property"."phone_number",
+    "property"."agent_badge_type",
+    "property"."photo_url",
+    CURRENT_TIMESTAMP
+FROM "property_agent_key" AS "key"
+JOIN "property" ON "property"."id" = "key"."id"
+WHERE "key"."profile_key" IS NOT NULL
+ORDER BY "key"."profile_key", "key"."updated_at" DESC;
+
+INSERT INTO "agent" ("phone_key", "display_name", "business_name", "phone_number", "agent_badge_type", "photo_url", "updated_at")
+SELECT DISTINCT ON ("key"."phone_key")
+    "key"."phone_key",
+    "property"."display_name",
+    "property"."business_name",
+    "property"."phone_number",
+    "property"."agent_badge_type",
+    "property"."photo_url",
+    CURRENT_TIMESTAMP
+FROM "property_agent_key" AS "key"
+JOIN "property" ON "property"."id" = "key"."id"
+WHERE "key"."profile_key" IS NULL
+    AND "key"."phone_key" IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM "agent" WHERE "agent"."phone_key" = "key"."phone_key")
+ORDER BY "key"."phone_key", "key"."updated_at" DESC;
+
+UPDATE "property"
+SET "agent_id" = "agent"."id"
+FROM "property_agent_key" AS "key", "agent"
+WHERE "property"."id" = "key"."id" AND "agent"."profile_url" = "key"."profile_key";
+
+-- Listings without a profile go to the oldest agent with their phone number
+UPDATE "property"
+SET "agent_id" = (
+    SELECT min("agent"."id") FROM "agent" WHERE "agent"."phone_key" = "key"."phone_key"
+)
+FROM "property_agent_key" AS "key"
+WHERE "property"."id" = "key"."id" AND "key"."profile_key" IS NULL AND "key"."phone_key" IS NOT NULL;
+
+DROP TABLE "property_agent_key";
+
+-- An agent was last contacted when one of their properties last moved to
+-- the contacted stage
+UPDATE "agent"
+SET "last_contacted_at" = "contact"."created_at", "last_contacted_by_id" = "contact"."user_id"
+FROM (
+    SELECT DISTINCT ON ("property"."agent_id")
+        "property"."agent_id",
+        "property_stage_transition"."created_at",
+        "property_stage_transition"."user_id"
+    FROM "property_stage_transition"
+    JOIN "property" ON "property"."id" = "property_stage_transition"."property_id"
+    WHERE "property_stage_transition"."to_stage" = 'contacted' AND "property"."agent_id" IS NOT NULL
+    ORDER BY "property"."agent_id", "property_stage_transition"."created_at" DESC
+) AS "contact"
+WHERE "agent"."id" = "contact"."agent_id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_profile_url_key" ON "agent"("profile_url");
+
+-- CreateIndex
+CREATE INDEX "agent_phone_key_idx" ON "agent"("phone_key");
+
+-- CreateIndex
+CREATE INDEX "property_agent_id_idx" ON "property"("agent_id");
+
+-- AddForeignKey
+ALTER TABLE "property" ADD CONSTRAINT "property_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "agent" ADD CONSTRAINT "agent_last_contacted_by_id_fkey" FOREIGN KEY ("last_contacted_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "property" ADD COLUMN     "phone_e164" TEXT;
+
+-- Existing rows are parsed by `npm run backfill:phones`, until then they
+-- are searched by the digits of phone_number.
+
+-- DropIndex
+DROP INDEX "property_phone_digits_idx";
+
+-- Must stay in sync with PHONE_DIGITS in src/lib/property-search.ts
+CREATE INDEX "property_phone_digits_idx" ON "property" USING GIN ((coalesce("phone_e164", regexp_replace("phone_number", '\D', '', 'g'))) gin_trgm_ops);
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "agent" ADD COLUMN     "email" TEXT;
+
+-- CreateTable
+CREATE TABLE "outreach_email" (
+    "id" SERIAL NOT NULL,
+    "property_id" INTEGER NOT NULL,
+    "agent_id" INTEGER,
+    "sender_id" TEXT,
+    "to_email" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "template_id" TEXT,
+    "transport" TEXT NOT NULL,
+    "provider_message_id" TEXT,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_email_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outreach_email_property_id_sent_at_idx" ON "outreach_email"("property_id", "sent_at");
+
+-- CreateIndex
+CREATE INDEX "outreach_email_agent_id_sent_at_idx" ON "outreach_email"("agent_id", "sent_at");
+
+-- AddForeignKey
+ALTER TABLE "outreach_email" ADD CONSTRAINT "outreach_email_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_email" ADD CONSTRAINT "outreach_email_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_email" ADD CONSTRAINT "outreach_email_sender_id_fkey" FOREIGN KEY ("sender_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,125 @@
+-- AlterTable
+ALTER TABLE "outreach_email" ADD COLUMN     "replied_at" TIMESTAMP(3),
+ADD COLUMN     "template_version_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "outreach_template" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_by_id" TEXT,
+    "archived_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outreach_template_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_template_variant" (
+    "id" SERIAL NOT NULL,
+    "template_id" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_template_variant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_template_version" (
+    "id" SERIAL NOT NULL,
+    "variant_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "author_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_template_version_pkey" PRIMARY KEY ("id")
+);
+
+-- The templates that were built into the outreach panel become the first
+-- version of the library, and emails sent from them point at it
+WITH "template" AS (
+    INSERT INTO "outreach_template" ("name", "updated_at")
+    VALUES ('Virtual staging intro', CURRENT_TIMESTAMP)
+    RETURNING "id"
+), "variant" AS (
+    INSERT INTO "outreach_template_variant" ("template_id", "label")
+    SELECT "id", 'A' FROM "template"
+    RETURNING "id"
+), "version" AS (
+    INSERT INTO "outreach_template_version" ("variant_id", "version", "subject", "body")
+    SELECT "id", 1, 'Staged photos for {{street_address}}', E'Hi {{agent_first_name}},\n\nI came across your listing at {{street_address}} in {{city}} and put together virtually staged versions of a few of its photos. The before and after are below.\n\nIf you\'d like to use them for the listing, they\'re yours, no strings attached. Happy to stage the rest of the rooms too.\n\nBest,\n{{sender_name}}' FROM "variant"
+    RETURNING "id"
+)
+UPDATE "outreach_email"
+SET "template_version_id" = "version"."id"
+FROM "version"
+WHERE "outreach_email"."template_id" = 'virtual-staging-intro';
+
+WITH "template" AS (
+    INSERT INTO "outreach_template" ("name", "updated_at")
+    VALUES ('Price drop follow-up', CURRENT_TIMESTAMP)
+    RETURNING "id"
+), "variant" AS (
+    INSERT INTO "outreach_template_variant" ("template_id", "label")
+    SELECT "id", 'A' FROM "template"
+    RETURNING "id"
+), "version" AS (
+    INSERT INTO "outreach_template_version" ("variant_id", "version", "subject", "body")
+    SELECT "id", 1, 'Helping {{street_address}} stand out', E'Hi {{agent_first_name}},\n\nI noticed {{street_address}} is now listed at {{price}}. Staged photos are one of the quickest ways to get a listing noticed again, so I staged a few of its rooms. Take a look below.\n\nLet me know if you\'d like the full set.\n\nThanks,\n{{sender_name}}' FROM "variant"
+    RETURNING "id"
+)
+UPDATE "outreach_email"
+SET "template_version_id" = "version"."id"
+FROM "version"
+WHERE "outreach_email"."template_id" = 'price-drop-follow-up';
+
+-- AlterTable
+ALTER TABLE "outreach_email" DROP COLUMN "template_id";
+
+-- An email was replied to when its lead first moved on to replied,
+-- interested or converted, and it was the latest email sent before that
+-- (see recordOutreachReplies in src/lib/outreach-replies.ts)
+UPDATE "outreach_email"
+SET "replied_at" = "reply"."created_at"
+FROM (
+    SELECT "property_id", min("created_at") AS "created_at"
+    FROM "property_stage_transition"
+    WHERE "to_stage" IN ('replied', 'interested', 'converted')
+    GROUP BY "property_id"
+) AS "reply"
+WHERE "outreach_email"."property_id" = "reply"."property_id"
+    AND "outreach_email"."id" = (
+        SELECT "latest"."id"
+        FROM "outreach_email" AS "latest"
+        WHERE "latest"."property_id" = "reply"."property_id"
+            AND "latest"."sent_at" <= "reply"."created_at"
+        ORDER BY "latest"."sent_at" DESC
+        LIMIT 1
+    );
+
+-- CreateIndex
+CREATE INDEX "outreach_email_template_version_id_idx" ON "outreach_email"("template_version_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_template_variant_template_id_label_key" ON "outreach_template_variant"("template_id", "label");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_template_version_variant_id_version_key" ON "outreach_template_version"("variant_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "outreach_email" ADD CONSTRAINT "outreach_email_template_version_id_fkey" FOREIGN KEY ("template_version_id") REFERENCES "outreach_template_version"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_template" ADD CONSTRAINT "outreach_template_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_template_variant" ADD CONSTRAINT "outreach_template_variant_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "outreach_template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_template_version" ADD CONSTRAINT "outreach_template_version_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "outreach_template_variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_template_version" ADD CONSTRAINT "outreach_template_version_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
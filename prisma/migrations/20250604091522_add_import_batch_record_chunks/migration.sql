@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "import_batch_record" ADD COLUMN     "chunk_index" INTEGER,
+ADD COLUMN     "listing_key" TEXT;
+
+-- CreateIndex
+CREATE INDEX "import_batch_record_batch_id_chunk_index_idx" ON "import_batch_record"("batch_id", "chunk_index");
+
+-- CreateIndex
+CREATE INDEX "import_batch_record_batch_id_listing_key_idx" ON "import_batch_record"("batch_id", "listing_key");
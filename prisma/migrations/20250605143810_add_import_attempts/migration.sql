@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "import_attempt" (
+    "id" SERIAL NOT NULL,
+    "api_key_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_attempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_attempt_api_key_id_created_at_idx" ON "import_attempt"("api_key_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "import_attempt" ADD CONSTRAINT "import_attempt_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_key"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- Listing keys no longer include the building id (see buildListingKey in
+-- src/lib/import/listing-key.ts), so the same address imported with and
+-- without one is recognized as one listing. The oldest property at each
+-- address keeps the key; the newer copies are left without one and are
+-- reported by `npm run backfill:listing-keys`.
+UPDATE "property" SET "listing_key" = NULL;
+
+WITH "keyed" AS (
+    SELECT
+        "id",
+        btrim(regexp_replace(lower("street_address"), '[^a-z0-9]+', ' ', 'g')) AS "street",
+        left(regexp_replace("zipcode", '\D', '', 'g'), 5) AS "zip"
+    FROM "property"
+), "ranked" AS (
+    SELECT
+        "id",
+        concat_ws('|', "street", "zip") AS "listing_key",
+        row_number() OVER (PARTITION BY "street", "zip" ORDER BY "id") AS "rank"
+    FROM "keyed"
+    WHERE "street" <> '' AND "zip" <> ''
+)
+UPDATE "property"
+SET "listing_key" = "ranked"."listing_key"
+FROM "ranked"
+WHERE "property"."id" = "ranked"."id" AND "ranked"."rank" = 1;
@@ -0,0 +1,167 @@
+/**
+ * Give existing properties the listing key imports recognize them by, and
+ * report the duplicates earlier imports created. Of the properties at one
+ * address only the one already keyed, or else the oldest, gets the key; the
+ * others are listed so they can be merged or deleted by hand.
+ *
+ *   npm run backfill:listing-keys -- --dry-run
+ *
+ * Safe to run again, e.g. once the duplicates are cleaned up.
+ */
+import { parseArgs } from 'util'
+import { prisma } from '@/lib/prisma'
+import { buildListingKey } from '@/lib/import/listing-key'
+
+const BATCH_SIZE = 500
+
+const usage = `Usage: npm run backfill:listing-keys -- [options]
+
+Options:
+  --dry-run  Report what would change without writing anything
+  --help     Show this message`
+
+interface KeyedProperty {
+  id: number
+  street_address: string | null
+  zipcode: string | null
+  listing_key: string | null
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  // Properties at each address, oldest first
+  const byKey = new Map<string, KeyedProperty[]>()
+  const clearIds: number[] = []
+  let cursor = 0
+  let checked = 0
+
+  for (;;) {
+    const properties = await prisma.property.findMany({
+      where: { id: { gt: cursor } },
+      select: {
+        id: true,
+        street_address: true,
+        zipcode: true,
+        listing_key: true,
+      },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    })
+    if (properties.length === 0) break
+
+    cursor = properties[properties.length - 1].id
+    checked += properties.length
+
+    for (const property of properties) {
+      const key = buildListingKey({
+        street_address: property.street_address ?? '',
+        zipcode: property.zipcode ?? '',
+      })
+      if (!key) {
+        if (property.listing_key) clearIds.push(property.id)
+        continue
+      }
+      const atAddress = byKey.get(key) ?? []
+      atAddress.push(property)
+      byKey.set(key, atAddress)
+    }
+  }
+
+  const keyed: { id: number; listing_key: string }[] = []
+  const duplicates: {
+    listing_key: string
+    kept: number
+    duplicates: string
+  }[] = []
+
+  for (const [key, properties] of byKey) {
+    const kept =
+      properties.find((property) => property.listing_key === key) ??
+      properties[0]
+
+    for (const property of properties) {
+      if (property === kept) {
+        if (property.listing_key !== key) {
+          keyed.push({ id: property.id, listing_key: key })
+          // Another property may be about to take its old key
+          if (property.listing_key) clearIds.push(property.id)
+        }
+      } else if (property.listing_key) {
+        clearIds.push(property.id)
+      }
+    }
+    if (properties.length > 1) {
+      duplicates.push({
+        listing_key: key,
+        kept: kept.id,
+        duplicates: properties
+          .filter((property) => property !== kept)
+          .map((property) => property.id)
+          .join(', '),
+      })
+    }
+  }
+
+  if (!values['dry-run']) {
+    // Keys move off the duplicates before the kept properties take them
+    if (clearIds.length > 0) {
+      await prisma.property.updateMany({
+        where: { id: { in: clearIds } },
+        data: { listing_key: null },
+      })
+    }
+    for (let i = 0; i < keyed.length; i += BATCH_SIZE) {
+      await prisma.$transaction(
+        keyed.slice(i, i + BATCH_SIZE).map((property) =>
+          prisma.property.update({
+            where: { id: property.id },
+            data: { listing_key: property.listing_key },
+          })
+        )
+      )
+    }
+  }
+
+  const updated = new Set([
+    ...clearIds,
+    ...keyed.map((property) => property.id),
+  ]).size
+
+  if (values['dry-run']) {
+    console.log('Dry run, nothing was written.')
+  }
+  console.log(
+    `Checked ${checked} properties, ${updated} ${
+      values['dry-run'] ? 'would be' : 'were'
+    } updated.`
+  )
+  if (duplicates.length > 0) {
+    console.log(
+      `\n${duplicates.length} addresses have more than one property. Merge or delete the duplicates:`
+    )
+    console.table(duplicates)
+  }
+
+  return 0
+}
+
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode
+  })
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,110 @@
+/**
+ * Parse the phone numbers of existing properties into E.164 form. Imports
+ * do this for new and updated listings; this fills in the rows imported
+ * before that.
+ *
+ *   npm run backfill:phones -- --dry-run
+ *   npm run backfill:phones -- --all
+ *
+ * Only properties without a parsed number are looked at unless --all is
+ * passed. Safe to run again.
+ */
+import { parseArgs } from 'util'
+import { prisma } from '@/lib/prisma'
+import { toE164 } from '@/lib/phone'
+
+const BATCH_SIZE = 500
+
+const usage = `Usage: npm run backfill:phones -- [options]
+
+Options:
+  --all      Parse every phone number again, not just the missing ones
+  --dry-run  Report what would change without writing anything
+  --help     Show this message`
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      all: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  let cursor = 0
+  let checked = 0
+  let updated = 0
+  const unparsed: { id: number; phone_number: string | null }[] = []
+
+  for (;;) {
+    const properties = await prisma.property.findMany({
+      where: {
+        id: { gt: cursor },
+        phone_number: { not: null },
+        ...(values.all ? {} : { phone_e164: null }),
+      },
+      select: { id: true, phone_number: true, phone_e164: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    })
+    if (properties.length === 0) break
+
+    cursor = properties[properties.length - 1].id
+    checked += properties.length
+
+    const parsed = properties.map((property) => ({
+      ...property,
+      parsed: toE164(property.phone_number),
+    }))
+    const changes = parsed.filter(
+      (property) => property.parsed !== property.phone_e164
+    )
+    unparsed.push(
+      ...parsed
+        .filter((property) => !property.parsed)
+        .map(({ id, phone_number }) => ({ id, phone_number }))
+    )
+    updated += changes.length
+
+    if (!values['dry-run'] && changes.length > 0) {
+      await prisma.$transaction(
+        changes.map((change) =>
+          prisma.property.update({
+            where: { id: change.id },
+            data: { phone_e164: change.parsed },
+          })
+        )
+      )
+    }
+  }
+
+  if (values['dry-run']) {
+    console.log('Dry run, nothing was written.')
+  }
+  console.log(
+    `Checked ${checked} properties, ${updated} ${
+      values['dry-run'] ? 'would be' : 'were'
+    } updated.`
+  )
+  if (unparsed.length > 0) {
+    console.log(`\n${unparsed.length} phone numbers could not be parsed:`)
+    console.table(unparsed)
+  }
+
+  return 0
+}
+
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode
+  })
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
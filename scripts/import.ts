@@ -0,0 +1,249 @@
+/**
+ * Import property exports from the command line.
+ *
+ *   npm run import -- exports/*.json --source zillow --dry-run
+ *   npm run import -- ./exports --mapping mls-columns.json
+ *
+ * Accepts files, directories (every .json, .jsonl, .ndjson and .csv file
+ * inside) and simple wildcard patterns. Exits with code 1 if any file or
+ * record fails validation.
+ */
+import { readdir, readFile, stat } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import { prisma } from '@/lib/prisma'
+import { SOURCE_ADAPTERS, detectSource } from '@/lib/import/adapters'
+import { runImportBatch } from '@/lib/import/batch'
+import { addImportCounts, emptyImportCounts } from '@/lib/import/counts'
+import { hashFileContent } from '@/lib/import/hash'
+import { previewRecords } from '@/lib/import/preview'
+import {
+  ColumnMapping,
+  ImportCounts,
+  ImportSource,
+  ParsedRecord,
+} from '@/lib/import/types'
+
+const IMPORTABLE_FILE = /\.(json|jsonl|ndjson|csv)$/i
+const PREVIEW_CHUNK_SIZE = 500
+
+const usage = `Usage: npm run import -- <file|directory|pattern>... [options]
+
+Options:
+  --source <id>     ${Object.keys(SOURCE_ADAPTERS).join(' | ')} (default: detect per file)
+  --mapping <file>  JSON file mapping property fields to CSV column names
+  --user <email>    Record the import batches as uploaded by this user
+  --dry-run         Report what would change without writing anything
+  --help            Show this message`
+
+interface FileSummary {
+  file: string
+  source: string
+  records: number
+  invalid: number
+  batch?: number
+  counts: ImportCounts
+  error?: string
+}
+
+/**
+ * Turn a wildcard pattern such as "exports/*.json" into a regular expression
+ * matched against file names
+ */
+function patternToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
+}
+
+/**
+ * Expand the command line arguments into a sorted list of files
+ */
+async function expandPaths(args: string[]): Promise<string[]> {
+  const files = new Set<string>()
+
+  for (const arg of args) {
+    if (/[*?]/.test(arg)) {
+      const directory = path.dirname(arg)
+      const matcher = patternToRegExp(path.basename(arg))
+      for (const entry of await readdir(directory)) {
+        if (matcher.test(entry)) {
+          files.add(path.join(directory, entry))
+        }
+      }
+      continue
+    }
+
+    const stats = await stat(arg)
+    if (stats.isDirectory()) {
+      for (const entry of await readdir(arg)) {
+        if (IMPORTABLE_FILE.test(entry)) {
+          files.add(path.join(arg, entry))
+        }
+      }
+    } else {
+      files.add(arg)
+    }
+  }
+
+  return [...files].sort()
+}
+
+/**
+ * Outcome counts a dry run would produce, using the same preview as the
+ * uploader page
+ */
+async function countPreview(records: ParsedRecord[]): Promise<ImportCounts> {
+  let counts = emptyImportCounts()
+
+  for (let i = 0; i < records.length; i += PREVIEW_CHUNK_SIZE) {
+    const rows = await previewRecords(records.slice(i, i + PREVIEW_CHUNK_SIZE))
+    const chunkCounts = emptyImportCounts()
+    rows.forEach((row) => chunkCounts[row.outcome]++)
+    counts = addImportCounts(counts, chunkCounts)
+  }
+
+  return counts
+}
+
+async function importFile(
+  file: string,
+  options: {
+    source?: ImportSource
+    columnMapping?: ColumnMapping
+    userId?: string
+    dryRun: boolean
+  }
+): Promise<FileSummary> {
+  const content = await readFile(file, 'utf8')
+  const fileName = path.basename(file)
+  const source = options.source ?? detectSource(content, fileName)
+  const summary: FileSummary = {
+    file,
+    source: source ?? 'unknown',
+    records: 0,
+    invalid: 0,
+    counts: emptyImportCounts(),
+  }
+
+  if (!source) {
+    return { ...summary, error: 'Format not recognized, pass --source' }
+  }
+
+  let records: ParsedRecord[]
+  try {
+    records = SOURCE_ADAPTERS[source].parse(content, {
+      columnMapping: options.columnMapping,
+    })
+  } catch (error) {
+    return {
+      ...summary,
+      error: error instanceof Error ? error.message : 'Could not parse file',
+    }
+  }
+
+  const invalidRecords = records.filter((record) => !record.listing)
+  for (const record of invalidRecords) {
+    record.errors.forEach((error) => console.error(`${file}: ${error}`))
+  }
+
+  summary.records = records.length
+  summary.invalid = invalidRecords.length
+
+  if (options.dryRun) {
+    return { ...summary, counts: await countPreview(records) }
+  }
+
+  const { batchId, counts } = await runImportBatch({
+    records,
+    source,
+    fileName,
+    fileHash: await hashFileContent(content),
+    userId: options.userId,
+  })
+
+  return { ...summary, batch: batchId, counts }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      source: { type: 'string' },
+      mapping: { type: 'string' },
+      user: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help || positionals.length === 0) {
+    console.log(usage)
+    return values.help ? 0 : 1
+  }
+
+  if (values.source && !Object.hasOwn(SOURCE_ADAPTERS, values.source)) {
+    console.error(`Unknown source "${values.source}"\n\n${usage}`)
+    return 1
+  }
+
+  const columnMapping: ColumnMapping | undefined = values.mapping
+    ? JSON.parse(await readFile(values.mapping, 'utf8'))
+    : undefined
+
+  let userId: string | undefined
+  if (values.user) {
+    const user = await prisma.user.findUnique({
+      where: { email: values.user },
+      select: { id: true },
+    })
+    if (!user) {
+      console.error(`No user with email ${values.user}`)
+      return 1
+    }
+    userId = user.id
+  }
+
+  const files = await expandPaths(positionals)
+  if (files.length === 0) {
+    console.error('No files matched')
+    return 1
+  }
+
+  const summaries: FileSummary[] = []
+  for (const file of files) {
+    summaries.push(
+      await importFile(file, {
+        source: values.source as ImportSource | undefined,
+        columnMapping,
+        userId,
+        dryRun: values['dry-run'],
+      })
+    )
+  }
+
+  if (values['dry-run']) {
+    console.log('\nDry run, nothing was written.')
+  }
+  console.table(
+    summaries.map(({ counts, ...summary }) => ({
+      ...summary,
+      ...counts,
+      error: summary.error ?? '',
+    }))
+  )
+
+  const hasFailures = summaries.some(
+    (summary) => summary.error || summary.invalid > 0
+  )
+  return hasFailures ? 1 : 0
+}
+
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode
+  })
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,72 @@
+'use server'
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface ActivityFeedFilters {
+  userId?: string
+  action?: string
+  propertyId?: number
+}
+
+/**
+ * Get one page of the activity log, newest first, narrowed by who did it,
+ * what they did and to which property. Pass the id of the last entry
+ * already shown to get the page after it.
+ */
+export async function getActivityFeed(
+  filters: ActivityFeedFilters,
+  cursor?: number
+) {
+  const pageSize = 50
+
+  try {
+    const where: Prisma.ActivityWhereInput = {
+      user_id: filters.userId,
+      action: filters.action,
+      property_id: filters.propertyId,
+    }
+
+    const activities = await prisma.activity.findMany({
+      where,
+      include: {
+        user: {
+          select: { name: true, email: true },
+        },
+        property: {
+          select: { street_address: true, deleted_at: true },
+        },
+      },
+      orderBy: { id: 'desc' },
+      take: pageSize + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    const hasMore = activities.length > pageSize
+    const page = hasMore ? activities.slice(0, pageSize) : activities
+
+    return {
+      activities: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    }
+  } catch (error) {
+    console.error('Error fetching activity:', error)
+    throw new Error('Failed to fetch activity')
+  }
+}
+
+/**
+ * Users who appear in the activity log, for filtering it
+ */
+export async function getActivityUsers() {
+  try {
+    return await prisma.user.findMany({
+      where: { activities: { some: {} } },
+      select: { id: true, name: true, email: true },
+      orderBy: { name: 'asc' },
+    })
+  } catch (error) {
+    console.error('Error fetching activity users:', error)
+    throw new Error('Failed to fetch activity users')
+  }
+}
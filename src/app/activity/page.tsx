@@ -0,0 +1,174 @@
+import Link from 'next/link'
+import { getActivityFeed, getActivityUsers } from './actions'
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ACTION_IDS,
+  describeActivityChange,
+  getActivityAction,
+  isActivityAction,
+} from '@/lib/activity-actions'
+import { parseId } from '@/lib/utils'
+
+type ActivitySearchParams = Record<string, string | string[] | undefined>
+
+function getParam(params: ActivitySearchParams, name: string) {
+  const value = params[name]
+  return typeof value === 'string' && value ? value : undefined
+}
+
+export default async function ActivityPage({
+  searchParams,
+}: {
+  searchParams: Promise<ActivitySearchParams>
+}) {
+  const params = await searchParams
+  const userId = getParam(params, 'user')
+  const actionParam = getParam(params, 'action')
+  const action = actionParam && isActivityAction(actionParam) ? actionParam : ''
+  const propertyId = parseId(getParam(params, 'property')) ?? undefined
+  const cursor = parseId(getParam(params, 'cursor')) ?? undefined
+
+  const [{ activities, nextCursor }, users] = await Promise.all([
+    getActivityFeed(
+      { userId, action: action || undefined, propertyId },
+      cursor
+    ),
+    getActivityUsers(),
+  ])
+
+  // Same filters, one page further back
+  const olderParams = new URLSearchParams()
+  if (userId) olderParams.set('user', userId)
+  if (action) olderParams.set('action', action)
+  if (propertyId) olderParams.set('property', String(propertyId))
+  if (nextCursor) olderParams.set('cursor', String(nextCursor))
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Activity</h1>
+        <Link href="/property-workbench" className="hover:underline">
+          Back to Property Workbench
+        </Link>
+      </div>
+
+      <form className="mb-4 flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col">
+          <span className="font-medium">User</span>
+          <select
+            name="user"
+            defaultValue={userId ?? ''}
+            className="mt-1 p-1 border rounded"
+          >
+            <option value="">Everyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name || user.email}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col">
+          <span className="font-medium">Action</span>
+          <select
+            name="action"
+            defaultValue={action}
+            className="mt-1 p-1 border rounded"
+          >
+            <option value="">Any action</option>
+            {ACTIVITY_ACTION_IDS.map((id) => (
+              <option key={id} value={id}>
+                {ACTIVITY_ACTIONS[id].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {propertyId && (
+          <input type="hidden" name="property" value={propertyId} />
+        )}
+        <button
+          type="submit"
+          className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600"
+        >
+          Filter
+        </button>
+        {(userId || action || propertyId) && (
+          <Link href="/activity" className="py-1 text-blue-600 hover:underline">
+            {propertyId ? `Clear filters (property #${propertyId})` : 'Clear'}
+          </Link>
+        )}
+      </form>
+
+      {activities.length > 0 ? (
+        <div className="border rounded-lg bg-white shadow overflow-auto text-gray-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">When</th>
+                <th className="p-2 text-left">Who</th>
+                <th className="p-2 text-left">Action</th>
+                <th className="p-2 text-left">Property</th>
+                <th className="p-2 text-left">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activities.map((activity) => (
+                <tr key={activity.id} className="border-b hover:bg-gray-50">
+                  <td className="p-2 whitespace-nowrap">
+                    {activity.created_at.toLocaleString()}
+                  </td>
+                  <td className="p-2">
+                    {activity.user ? (
+                      activity.user.name || activity.user.email
+                    ) : (
+                      <span className="text-gray-400">System</span>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    {getActivityAction(activity.action).label}
+                  </td>
+                  <td className="p-2">
+                    {activity.property_id === null ? (
+                      <span className="text-gray-400">Deleted</span>
+                    ) : activity.property?.deleted_at ? (
+                      <Link
+                        href="/property-workbench/trash"
+                        className="text-blue-600 hover:underline"
+                      >
+                        #{activity.property_id} (in Trash)
+                      </Link>
+                    ) : (
+                      <Link
+                        href={`/property-workbench/${activity.property_id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {activity.property?.street_address ||
+                          `#${activity.property_id}`}
+                      </Link>
+                    )}
+                  </td>
+                  <td className="p-2 text-gray-600">
+                    {describeActivityChange(activity)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-500">No activity found</p>
+      )}
+
+      {nextCursor && (
+        <div className="mt-4 text-center">
+          <Link
+            href={`/activity?${olderParams.toString()}`}
+            className="text-blue-600 hover:underline"
+          >
+            Older activity
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
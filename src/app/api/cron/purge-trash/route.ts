@@ -0,0 +1,29 @@
+import { revalidatePath } from 'next/cache'
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeExpiredProperties } from '@/lib/property-trash'
+
+/**
+ * Purge properties that have been in the trash longer than
+ * PROPERTY_TRASH_RETENTION_DAYS. Run daily by the cron in vercel.json,
+ * which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { count, retentionDays } = await purgeExpiredProperties()
+
+    revalidatePath('/property-workbench/trash')
+
+    return NextResponse.json({ purged: count, retentionDays })
+  } catch (error) {
+    console.error('Error purging trashed properties:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge trashed properties' },
+      { status: 500 }
+    )
+  }
+}
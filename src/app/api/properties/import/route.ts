@@ -0,0 +1,221 @@
+import { revalidatePath } from 'next/cache'
+import { NextRequest, NextResponse } from 'next/server'
+import { promisify } from 'util'
+import { gunzip } from 'zlib'
+import {
+  authenticateApiKey,
+  getImportRetryAfter,
+  recordImportAttempt,
+} from '@/lib/api-keys'
+import { prisma } from '@/lib/prisma'
+import { SOURCE_ADAPTERS, detectSource } from '@/lib/import/adapters'
+import { runImportBatch } from '@/lib/import/batch'
+import { hashFileContent } from '@/lib/import/hash'
+import { ImportSource, ParsedRecord } from '@/lib/import/types'
+
+const gunzipAsync = promisify(gunzip)
+
+// Limit on the decompressed body, well above the largest exports we've seen
+const MAX_BODY_BYTES = 50 * 1024 * 1024
+
+const extensionsByContentType: Record<string, string> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'jsonl',
+  'application/jsonl': 'jsonl',
+}
+
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Read the raw request body, stopping as soon as it goes over the limit so
+ * a body without a Content-Length is never buffered in full
+ */
+async function readLimitedBody(request: NextRequest) {
+  const declaredLength = Number(request.headers.get('content-length'))
+  if (declaredLength > MAX_BODY_BYTES) {
+    throw new RequestBodyError('Request body is too large', 413)
+  }
+
+  const reader = request.body?.getReader()
+  if (!reader) return Buffer.alloc(0)
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    length += value.byteLength
+    if (length > MAX_BODY_BYTES) {
+      await reader.cancel()
+      throw new RequestBodyError('Request body is too large', 413)
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Read the request body as text, decompressing gzip bodies
+ */
+async function readBody(request: NextRequest) {
+  const body = await readLimitedBody(request)
+  const encoding = request.headers.get('content-encoding')?.toLowerCase()
+
+  if (!encoding || encoding === 'identity') {
+    return body.toString('utf8')
+  }
+
+  if (encoding !== 'gzip') {
+    throw new RequestBodyError(`Unsupported Content-Encoding: ${encoding}`, 415)
+  }
+
+  try {
+    const decompressed = await gunzipAsync(body, {
+      maxOutputLength: MAX_BODY_BYTES,
+    })
+    return decompressed.toString('utf8')
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new RequestBodyError('Request body is too large', 413)
+    }
+    throw new RequestBodyError('Request body is not valid gzip', 400)
+  }
+}
+
+/**
+ * Push listings from a scraper. Accepts the same formats as the JSON
+ * uploader, authenticated with a per-user API key:
+ *
+ *   curl -X POST /api/properties/import?source=zillow \
+ *     -H "Authorization: Bearer pf_..." \
+ *     -H "Content-Encoding: gzip" --data-binary @export.json.gz
+ *
+ * The push is recorded as an import batch and the response lists the
+ * outcome of every record.
+ */
+export async function POST(request: NextRequest) {
+  const apiKey = await authenticateApiKey(request.headers.get('authorization'))
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: 'Missing or invalid API key' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    )
+  }
+
+  const retryAfter = await getImportRetryAfter(apiKey.id)
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded, try again later' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    )
+  }
+  await recordImportAttempt(apiKey.id)
+
+  let content: string
+  try {
+    content = await readBody(request)
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    throw error
+  }
+
+  const params = request.nextUrl.searchParams
+  const contentType = request.headers.get('content-type')?.split(';')[0]
+  const extension = extensionsByContentType[contentType ?? ''] ?? 'json'
+  const fileName =
+    params.get('fileName') ||
+    `${apiKey.name} ${new Date().toISOString()}.${extension}`
+
+  const requestedSource = params.get('source')
+  if (requestedSource && !Object.hasOwn(SOURCE_ADAPTERS, requestedSource)) {
+    return NextResponse.json(
+      { error: `Unknown source: ${requestedSource}` },
+      { status: 400 }
+    )
+  }
+
+  const source =
+    (requestedSource as ImportSource | null) ?? detectSource(content, fileName)
+  if (!source) {
+    return NextResponse.json(
+      { error: 'Format not recognized, pass ?source=' },
+      { status: 400 }
+    )
+  }
+
+  let records: ParsedRecord[]
+  try {
+    records = SOURCE_ADAPTERS[source].parse(content)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Could not parse request body',
+      },
+      { status: 400 }
+    )
+  }
+
+  if (records.length === 0) {
+    return NextResponse.json({ error: 'No records found' }, { status: 400 })
+  }
+
+  try {
+    const { batchId, counts } = await runImportBatch({
+      records,
+      source,
+      fileName,
+      fileHash: await hashFileContent(content),
+      userId: apiKey.user_id,
+      apiKeyId: apiKey.id,
+    })
+
+    const results = await prisma.importBatchRecord.findMany({
+      where: { batch_id: batchId },
+      orderBy: { record_index: 'asc' },
+    })
+
+    const warningsByIndex = new Map(
+      records.map((record) => [record.index, record.warnings])
+    )
+
+    revalidatePath('/json-uploader/history')
+    revalidatePath('/property-workbench')
+
+    return NextResponse.json({
+      batchId,
+      source,
+      counts,
+      records: results.map((result) => ({
+        index: result.record_index,
+        street_address: result.street_address,
+        outcome: result.outcome,
+        message: result.message,
+        propertyId: result.property_id,
+        warnings: warningsByIndex.get(result.record_index) ?? [],
+      })),
+    })
+  } catch (error) {
+    console.error('Error importing pushed properties:', error)
+    return NextResponse.json(
+      { error: 'Failed to import properties' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { MAPPABLE_FIELDS } from '@/lib/import/adapters/fields'
+import { ColumnMapping, MappableField } from '@/lib/import/types'
+
+interface CsvColumnMappingProps {
+  headers: string[]
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+}
+
+const requiredFields: MappableField[] = [
+  'street_address',
+  'zipcode',
+  'unstaged_images',
+]
+
+export default function CsvColumnMapping({
+  headers,
+  mapping,
+  onChange,
+}: CsvColumnMappingProps) {
+  const handleChange = (field: MappableField, column: string) => {
+    const next = { ...mapping }
+    if (column) {
+      next[field] = column
+    } else {
+      delete next[field]
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="text-gray-800 mb-6 p-4 border rounded-md bg-white shadow">
+      <h2 className="text-lg font-semibold mb-1">Column Mapping</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Choose the CSV column for each property field. Image columns may hold
+        several URLs separated by spaces, commas or pipes.
+      </p>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {MAPPABLE_FIELDS.map((field) => (
+          <label key={field} className="flex items-center justify-between">
+            <span className="text-sm font-medium mr-2">
+              {field}
+              {requiredFields.includes(field) && (
+                <span className="text-red-500">*</span>
+              )}
+            </span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => handleChange(field, e.target.value)}
+              className="p-1 border rounded text-sm w-48"
+            >
+              <option value="">Not mapped</option>
+              {headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { PreviewRow, UpsertOutcome } from '@/lib/import/types'
+
+interface ImportPreviewTableProps {
+  rows: PreviewRow[]
+  selectedIndexes: Set<number>
+  onToggleRow: (index: number) => void
+  onToggleAll: (isSelected: boolean) => void
+}
+
+const outcomeLabels: Record<UpsertOutcome, string> = {
+  created: 'Create',
+  updated: 'Update',
+  unchanged: 'Unchanged',
+  skipped: 'Skip',
+}
+
+const outcomeStyles: Record<UpsertOutcome, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  skipped: 'bg-red-100 text-red-800',
+}
+
+const formatValue = (value: string | number | null) => {
+  if (value === null) {
+    return <span className="text-gray-400">empty</span>
+  }
+  return typeof value === 'number' ? value.toLocaleString() : value
+}
+
+export default function ImportPreviewTable({
+  rows,
+  selectedIndexes,
+  onToggleRow,
+  onToggleAll,
+}: ImportPreviewTableProps) {
+  const selectableRows = rows.filter((row) => row.outcome !== 'skipped')
+  const isAllSelected =
+    selectableRows.length > 0 &&
+    selectableRows.every((row) => selectedIndexes.has(row.index))
+
+  const counts = rows.reduce(
+    (totals, row) => ({ ...totals, [row.outcome]: totals[row.outcome] + 1 }),
+    { created: 0, updated: 0, unchanged: 0, skipped: 0 }
+  )
+
+  return (
+    <div className="mb-6 border rounded-lg bg-white shadow text-gray-800">
+      <div className="flex justify-between items-center p-4 border-b">
+        <h2 className="text-lg font-semibold">Preview</h2>
+        <p className="text-sm text-gray-600">
+          {counts.created} to create, {counts.updated} to update,{' '}
+          {counts.unchanged} unchanged, {counts.skipped} skipped
+        </p>
+      </div>
+      <div className="overflow-auto max-h-[500px]">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="p-2 text-left w-8">
+                <input
+                  type="checkbox"
+                  checked={isAllSelected}
+                  onChange={(e) => onToggleAll(e.target.checked)}
+                  className="h-4 w-4"
+                  aria-label="Select all records"
+                />
+              </th>
+              <th className="p-2 text-left w-12">#</th>
+              <th className="p-2 text-left">Address</th>
+              <th className="p-2 text-left w-28">Action</th>
+              <th className="p-2 text-left">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.index} className="border-b align-top">
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIndexes.has(row.index)}
+                    onChange={() => onToggleRow(row.index)}
+                    disabled={row.outcome === 'skipped'}
+                    className="h-4 w-4"
+                    aria-label={`Select record ${row.index + 1}`}
+                  />
+                </td>
+                <td className="p-2 text-gray-500">{row.index + 1}</td>
+                <td className="p-2">
+                  {row.street_address || (
+                    <span className="text-gray-400">No Address</span>
+                  )}
+                  {row.propertyId && (
+                    <div className="text-xs text-gray-500">
+                      Property ID: {row.propertyId}
+                    </div>
+                  )}
+                </td>
+                <td className="p-2">
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${
+                      outcomeStyles[row.outcome]
+                    }`}
+                  >
+                    {outcomeLabels[row.outcome]}
+                  </span>
+                </td>
+                <td className="p-2">
+                  {row.reason && <p className="text-red-700">{row.reason}</p>}
+                  {row.changes.length > 0 && (
+                    <ul className="space-y-1">
+                      {row.changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="font-medium">{change.field}</span>
+                          :{' '}
+                          <span className="line-through text-gray-500">
+                            {formatValue(change.before)}
+                          </span>{' '}
+                          &rarr; {formatValue(change.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {row.warnings.map((warning) => (
+                    <p key={warning} className="text-yellow-700 text-xs">
+                      {warning}
+                    </p>
+                  ))}
+                  {row.newImageCount > 0 && (
+                    <p className="text-gray-600">
+                      {row.newImageCount} new image
+                      {row.newImageCount === 1 ? '' : 's'}
+                    </p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { ImportCounts } from '@/lib/import/types'
+
+interface ImportProgressBarProps {
+  processed: number
+  total: number
+  counts: ImportCounts
+  startedAt: number
+  startIndex: number
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export default function ImportProgressBar({
+  processed,
+  total,
+  counts,
+  startedAt,
+  startIndex,
+}: ImportProgressBarProps) {
+  const percent = total > 0 ? Math.round((processed / total) * 100) : 0
+
+  // Base the estimate on records processed in this session only, so a
+  // resumed import does not look faster than it is
+  const processedThisSession = processed - startIndex
+  const elapsed = Date.now() - startedAt
+  const eta =
+    processedThisSession > 0
+      ? (elapsed / processedThisSession) * (total - processed)
+      : null
+
+  return (
+    <div className="text-gray-800 mb-6 p-4 bg-white border rounded-md shadow">
+      <div className="flex justify-between mb-1">
+        <span className="font-medium">
+          {processed.toLocaleString()} of {total.toLocaleString()} records
+        </span>
+        <span className="text-sm text-gray-500">
+          {eta !== null && processed < total
+            ? `About ${formatDuration(eta)} left`
+            : 'Estimating...'}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-3">
+        <div
+          className="bg-green-500 h-3 rounded-full transition-all"
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      <p className="text-sm text-gray-600 mt-2">
+        {counts.created} created, {counts.updated} updated, {counts.unchanged}{' '}
+        unchanged, {counts.skipped} skipped, {counts.failed} failed
+      </p>
+    </div>
+  )
+}
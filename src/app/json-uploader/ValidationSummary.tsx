@@ -0,0 +1,66 @@
+'use client'
+
+import { ParsedRecord } from '@/lib/import/types'
+
+interface ValidationSummaryProps {
+  records: ParsedRecord[]
+}
+
+// Long exports can produce thousands of messages; show the first few
+const MAX_MESSAGES = 50
+
+export default function ValidationSummary({ records }: ValidationSummaryProps) {
+  const errors = records.flatMap((record) => record.errors)
+  const warnings = records.flatMap((record) => record.warnings)
+  const invalidCount = records.filter((record) => !record.listing).length
+
+  return (
+    <div
+      className={`text-gray-800 mb-6 p-4 border rounded-md ${
+        invalidCount > 0
+          ? 'bg-red-50 border-red-200'
+          : 'bg-green-50 border-green-200'
+      }`}
+    >
+      <h2 className="text-lg font-semibold mb-2">Validation</h2>
+      <p className="mb-2">
+        {records.length} records, {records.length - invalidCount} valid,{' '}
+        {invalidCount} with errors, {warnings.length} warnings
+      </p>
+
+      {errors.length > 0 && (
+        <div className="mb-2">
+          <h3 className="font-medium text-red-700">
+            Errors (these records will be skipped)
+          </h3>
+          <ul className="text-sm font-mono text-red-700 max-h-48 overflow-auto">
+            {errors.slice(0, MAX_MESSAGES).map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+          {errors.length > MAX_MESSAGES && (
+            <p className="text-sm text-red-700">
+              ...and {errors.length - MAX_MESSAGES} more
+            </p>
+          )}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div>
+          <h3 className="font-medium text-yellow-700">Warnings</h3>
+          <ul className="text-sm font-mono text-yellow-700 max-h-48 overflow-auto">
+            {warnings.slice(0, MAX_MESSAGES).map((warning, i) => (
+              <li key={i}>{warning}</li>
+            ))}
+          </ul>
+          {warnings.length > MAX_MESSAGES && (
+            <p className="text-sm text-yellow-700">
+              ...and {warnings.length - MAX_MESSAGES} more
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
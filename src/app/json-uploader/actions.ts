@@ -1,130 +1,165 @@
 'use server'
 
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import {
+  completeImportBatch,
+  createImportBatch,
+  importRecords,
+} from '@/lib/import/batch'
+import { emptyImportCounts } from '@/lib/import/counts'
+import { revalidateRecord } from '@/lib/import/listing-schema'
+import { previewRecords } from '@/lib/import/preview'
+import {
+  ImportCounts,
+  ImportSource,
+  ParsedRecord,
+  PreviewRow,
+} from '@/lib/import/types'
 
-interface PublishResult {
+interface StartImportOptions {
+  fileName: string
+  fileHash: string
+  source: ImportSource
+  recordCount: number
+}
+
+interface StartImportResult {
+  success: boolean
+  batchId?: number
+  error?: string
+}
+
+interface ChunkResult extends ImportCounts {
   success: boolean
-  published: number
-  skipped: number
   error?: string
 }
 
-export async function publishToDatabase(
-  jsonData: string
-): Promise<PublishResult> {
+interface PreviewResult {
+  success: boolean
+  rows: PreviewRow[]
+  error?: string
+}
+
+/**
+ * Dry run: report what publishing each record in the chunk would do
+ * without writing anything
+ */
+export async function previewImport(
+  records: ParsedRecord[]
+): Promise<PreviewResult> {
+  try {
+    const rows = await previewRecords(records.map(revalidateRecord))
+    return { success: true, rows }
+  } catch (error) {
+    console.error('Error previewing import:', error)
+    return {
+      success: false,
+      rows: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Create the import batch that the chunks of a file are published into
+ */
+export async function startImport(
+  options: StartImportOptions
+): Promise<StartImportResult> {
+  try {
+    const session = await auth()
+    const batch = await createImportBatch({
+      ...options,
+      userId: session?.user?.id,
+    })
+
+    revalidatePath('/json-uploader/history')
+
+    return { success: true, batchId: batch.id }
+  } catch (error) {
+    console.error('Error starting import:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Publish one chunk of records into a batch that is still processing.
+ * Publishing the same chunk again does not import it twice.
+ */
+export async function publishChunk(
+  batchId: number,
+  chunkIndex: number,
+  records: ParsedRecord[]
+): Promise<ChunkResult> {
   try {
-    const data = JSON.parse(jsonData)
-    let published = 0
-    let skipped = 0
+    const batch = await prisma.importBatch.findUnique({
+      where: { id: batchId },
+      select: { status: true, source: true },
+    })
 
-    if (!data.searchResults || !Array.isArray(data.searchResults)) {
+    if (!batch || batch.status !== 'processing') {
       return {
         success: false,
-        published: 0,
-        skipped: 0,
-        error:
-          'Invalid JSON structure: searchResults not found or not an array',
+        ...emptyImportCounts(),
+        error: 'Import batch not found or no longer accepting records',
       }
     }
 
-    for (const searchResult of data.searchResults) {
-      try {
-        // Check if there are unstaged images
-        const unstagedImages =
-          searchResult?.property?.media?.allPropertyPhotos?.unstaged
-        if (
-          !unstagedImages ||
-          !Array.isArray(unstagedImages) ||
-          unstagedImages.length === 0
-        ) {
-          skipped++
-          continue
-        }
-
-        // Extract property data based on the correct JSON structure
-        const propertyData = {
-          street_address:
-            searchResult?.property?.address?.streetAddress || null,
-          zipcode: searchResult?.property?.address?.zipcode || null,
-          city: searchResult?.property?.address?.city || null,
-          state: searchResult?.property?.address?.state || null,
-          building_id:
-            searchResult?.property?.address?.buildingId?.toString() || null,
-          listing_status:
-            searchResult?.property?.listing?.listingStatus || null,
-          price: searchResult?.property?.price?.value || null,
-          display_name:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.displayName || null,
-          business_name:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.businessName || null,
-          phone_number:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.phoneNumber || null,
-          agent_badge_type:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.agentBadgeType || null,
-          photo_url:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.photoUrl || null,
-          profile_url:
-            searchResult?.property?.contact_info?.propertyInfo?.agentInfo
-              ?.profileUrl || null,
-          days_on_zillow:
-            typeof searchResult?.property?.daysOnZillow === 'number'
-              ? searchResult?.property?.daysOnZillow
-              : null,
-        }
-
-        // Create the property record
-        const property = await prisma.property.create({
-          data: propertyData,
-        })
-
-        // Handle high-res images
-        const highResImages =
-          searchResult?.property?.media?.allPropertyPhotos?.highResolution
-        if (
-          highResImages &&
-          Array.isArray(highResImages) &&
-          highResImages.length > 0
-        ) {
-          await prisma.otherImage.createMany({
-            data: highResImages.map((imageUrl) => ({
-              property_id: property.id,
-              image_url: imageUrl,
-            })),
-          })
-        }
-
-        // Handle unstaged images
-        await prisma.unstagedImage.createMany({
-          data: unstagedImages.map((imageUrl) => ({
-            property_id: property.id,
-            unstaged_images: imageUrl,
-          })),
-        })
-
-        published++
-      } catch (propertyError) {
-        console.error('Error processing property:', propertyError)
-        skipped++
-      }
-    }
+    const counts = await importRecords(
+      batchId,
+      batch.source as ImportSource,
+      records.map(revalidateRecord),
+      chunkIndex
+    )
 
+    return { success: true, ...counts }
+  } catch (error) {
+    console.error('Error publishing chunk:', error)
     return {
-      success: true,
-      published,
-      skipped,
+      success: false,
+      ...emptyImportCounts(),
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
     }
+  }
+}
+
+/**
+ * Close a batch once every chunk has been published
+ */
+export async function finishImport(batchId: number) {
+  try {
+    await completeImportBatch(batchId)
+
+    revalidatePath('/json-uploader/history')
+    revalidatePath('/property-workbench')
+
+    return { success: true }
   } catch (error) {
-    console.error('Error publishing to database:', error)
+    console.error('Error finishing import:', error)
     return {
       success: false,
-      published: 0,
-      skipped: 0,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
     }
   }
 }
+
+/**
+ * Status of a batch, used to decide whether an interrupted import can resume
+ */
+export async function getImportStatus(batchId: number) {
+  try {
+    const batch = await prisma.importBatch.findUnique({
+      where: { id: batchId },
+      select: { status: true },
+    })
+    return batch?.status ?? null
+  } catch (error) {
+    console.error('Error fetching import status:', error)
+    return null
+  }
+}
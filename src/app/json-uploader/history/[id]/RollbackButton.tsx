@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import { rollbackImportBatch } from '../actions'
+import ConfirmationDialog from '@/components/ConfirmationDialog'
+
+interface RollbackButtonProps {
+  batchId: number
+  propertyCount: number
+}
+
+export default function RollbackButton({
+  batchId,
+  propertyCount,
+}: RollbackButtonProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const handleRollback = async () => {
+    setIsRollingBack(true)
+    setErrorMessage(null)
+    try {
+      const result = await rollbackImportBatch(batchId)
+      if (!result.success) {
+        setErrorMessage(result.error || 'Rollback failed')
+      }
+    } catch (error) {
+      console.error('Error rolling back import batch:', error)
+      setErrorMessage('An error occurred while rolling back')
+    } finally {
+      setIsRollingBack(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end">
+      <button
+        onClick={() => setIsDialogOpen(true)}
+        disabled={isRollingBack}
+        className={`px-4 py-2 rounded text-white shadow-md ${
+          isRollingBack
+            ? 'bg-gray-400 cursor-not-allowed'
+            : 'bg-red-600 hover:bg-red-700'
+        }`}
+      >
+        {isRollingBack ? 'Rolling back...' : 'Roll Back Batch'}
+      </button>
+      {errorMessage && (
+        <p className="text-red-600 text-sm mt-2">{errorMessage}</p>
+      )}
+
+      <ConfirmationDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onConfirm={handleRollback}
+        title="Roll Back Import"
+        message={`This will permanently delete the ${propertyCount} properties created by this import, along with all their images. Properties it only updated are kept.`}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getImportBatchById } from '../actions'
+import RollbackButton from './RollbackButton'
+import { parseId } from '@/lib/utils'
+
+const outcomeStyles: Record<string, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  skipped: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default async function ImportBatchPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const batchId = parseId(id)
+  const batch = batchId ? await getImportBatchById(batchId) : null
+
+  if (!batch) {
+    notFound()
+  }
+
+  // Show problems first so they are not buried in a long import
+  const problemRecords = batch.records.filter(
+    (record) => record.outcome === 'failed' || record.outcome === 'skipped'
+  )
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 text-gray-800">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Import #{batch.id}</h1>
+        <Link href="/json-uploader/history" className="hover:underline">
+          Back to Import History
+        </Link>
+      </div>
+
+      <div className="mb-6 border rounded-lg p-4 bg-white shadow">
+        <div className="flex justify-between">
+          <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
+            <p className="font-medium">File</p>
+            <p>{batch.file_name}</p>
+            <p className="font-medium">Source</p>
+            <p>{batch.source}</p>
+            <p className="font-medium">SHA-256</p>
+            <p className="font-mono break-all">{batch.file_hash}</p>
+            <p className="font-medium">Uploaded by</p>
+            <p>
+              {batch.user?.name || batch.user?.email || 'Unknown'}
+              {batch.api_key && ` (via API key ${batch.api_key.name})`}
+            </p>
+            <p className="font-medium">Uploaded at</p>
+            <p>{batch.created_at.toLocaleString()}</p>
+            <p className="font-medium">Result</p>
+            <p>
+              {batch.created_count} created, {batch.updated_count} updated,{' '}
+              {batch.unchanged_count} unchanged, {batch.skipped_count} skipped,{' '}
+              {batch.failed_count} failed
+            </p>
+            <p className="font-medium">Status</p>
+            <p>
+              {batch.status === 'rolled_back' && batch.rolled_back_at
+                ? `Rolled back at ${batch.rolled_back_at.toLocaleString()}`
+                : batch.status}
+            </p>
+          </div>
+          {batch.status !== 'rolled_back' && (
+            <div>
+              <RollbackButton
+                batchId={batch.id}
+                propertyCount={batch._count.properties}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {problemRecords.length > 0 && (
+        <div className="mb-6 border rounded-lg p-4 bg-white shadow">
+          <h2 className="text-xl font-semibold mb-4 border-b pb-2">
+            ERRORS AND SKIPPED RECORDS
+          </h2>
+          <ul className="text-sm space-y-1">
+            {problemRecords.map((record) => (
+              <li key={record.id}>
+                <span className="font-medium">
+                  Record {record.record_index + 1}
+                </span>{' '}
+                ({record.street_address || 'No Address'}):{' '}
+                <span
+                  className={
+                    record.outcome === 'failed'
+                      ? 'text-red-600'
+                      : 'text-yellow-700'
+                  }
+                >
+                  {record.message || record.outcome}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="border rounded-lg bg-white shadow overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-2 text-left w-16">#</th>
+              <th className="p-2 text-left">Address</th>
+              <th className="p-2 text-left w-28">Outcome</th>
+              <th className="p-2 text-left">Message</th>
+              <th className="p-2 text-left w-24">Property</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batch.records.map((record) => (
+              <tr key={record.id} className="border-b">
+                <td className="p-2 text-gray-500">{record.record_index + 1}</td>
+                <td className="p-2">
+                  {record.street_address || (
+                    <span className="text-gray-400">No Address</span>
+                  )}
+                </td>
+                <td className="p-2">
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${
+                      outcomeStyles[record.outcome] ?? ''
+                    }`}
+                  >
+                    {record.outcome}
+                  </span>
+                </td>
+                <td className="p-2">{record.message}</td>
+                <td className="p-2">{record.property_id ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { recordActivity } from '@/lib/activity'
+
+/**
+ * Get all import batches, newest first
+ */
+export async function getImportBatches() {
+  try {
+    const batches = await prisma.importBatch.findMany({
+      include: {
+        user: {
+          select: { name: true, email: true },
+        },
+        api_key: {
+          select: { name: true },
+        },
+      },
+      orderBy: {
+        created_at: 'desc',
+      },
+    })
+    return batches
+  } catch (error) {
+    console.error('Error fetching import batches:', error)
+    throw new Error('Failed to fetch import batches')
+  }
+}
+
+/**
+ * Get an import batch with its per-record results
+ */
+export async function getImportBatchById(id: number) {
+  try {
+    const batch = await prisma.importBatch.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { name: true, email: true },
+        },
+        api_key: {
+          select: { name: true },
+        },
+        records: {
+          orderBy: { record_index: 'asc' },
+        },
+        _count: {
+          select: { properties: true },
+        },
+      },
+    })
+    return batch
+  } catch (error) {
+    console.error('Error fetching import batch:', error)
+    throw new Error('Failed to fetch import batch')
+  }
+}
+
+/**
+ * Roll back an import batch by deleting every property it created along
+ * with their images. Properties the batch only updated are left in place.
+ */
+export async function rollbackImportBatch(id: number) {
+  try {
+    const session = await auth()
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const batch = await tx.importBatch.findUnique({
+        where: { id },
+        select: { status: true },
+      })
+
+      if (!batch) {
+        throw new Error('Import batch not found')
+      }
+      if (batch.status === 'rolled_back') {
+        throw new Error('Import batch has already been rolled back')
+      }
+
+      const properties = await tx.property.findMany({
+        where: { import_batch_id: id },
+        select: { id: true, street_address: true, city: true, state: true },
+      })
+      const propertyIds = properties.map((property) => property.id)
+
+      // The log keeps the address once the property itself is gone
+      await recordActivity(
+        session?.user?.id,
+        properties.map(({ id: propertyId, ...address }) => ({
+          propertyId,
+          action: 'import_rollback',
+          before: { ...address, import_batch_id: id },
+        })),
+        tx
+      )
+
+      // Delete related images first (foreign key constraints)
+      await tx.otherImage.deleteMany({
+        where: { property_id: { in: propertyIds } },
+      })
+
+      await tx.generatedImage.deleteMany({
+        where: { property_id: { in: propertyIds } },
+      })
+
+      await tx.unstagedImage.deleteMany({
+        where: { property_id: { in: propertyIds } },
+      })
+
+      await tx.property.deleteMany({
+        where: { id: { in: propertyIds } },
+      })
+
+      await tx.importBatch.update({
+        where: { id },
+        data: {
+          status: 'rolled_back',
+          rolled_back_at: new Date(),
+        },
+      })
+
+      return propertyIds.length
+    })
+
+    // Revalidate the pages showing this batch and its properties
+    revalidatePath('/json-uploader/history')
+    revalidatePath(`/json-uploader/history/${id}`)
+    revalidatePath('/property-workbench')
+
+    return { success: true, deleted }
+  } catch (error) {
+    console.error('Error rolling back import batch:', error)
+    return {
+      success: false,
+      deleted: 0,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
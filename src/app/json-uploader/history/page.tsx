@@ -0,0 +1,111 @@
+import Link from 'next/link'
+import { getImportBatches } from './actions'
+
+const statusStyles: Record<string, string> = {
+  processing: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  rolled_back: 'bg-gray-200 text-gray-700',
+}
+
+export default async function ImportHistoryPage() {
+  const batches = await getImportBatches()
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Import History</h1>
+        <Link href="/json-uploader" className="hover:underline">
+          Back to JSON Uploader
+        </Link>
+      </div>
+
+      {batches.length > 0 ? (
+        <div className="border rounded-lg bg-white shadow overflow-auto text-gray-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">Batch</th>
+                <th className="p-2 text-left">File</th>
+                <th className="p-2 text-left">Uploaded by</th>
+                <th className="p-2 text-left">Uploaded at</th>
+                <th className="p-2 text-right">Created</th>
+                <th className="p-2 text-right">Updated</th>
+                <th className="p-2 text-right">Unchanged</th>
+                <th className="p-2 text-right">Skipped</th>
+                <th className="p-2 text-right">Failed</th>
+                <th className="p-2 text-left">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr key={batch.id} className="border-b hover:bg-gray-50">
+                  <td className="p-2">
+                    <Link
+                      href={`/json-uploader/history/${batch.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      #{batch.id}
+                    </Link>
+                  </td>
+                  <td className="p-2">
+                    <div>{batch.file_name}</div>
+                    <div className="text-xs text-gray-500">{batch.source}</div>
+                    <div
+                      className="text-xs text-gray-500 font-mono"
+                      title={batch.file_hash}
+                    >
+                      {batch.file_hash.slice(0, 12)}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    {batch.user?.name || batch.user?.email || (
+                      <span className="text-gray-400">Unknown</span>
+                    )}
+                    {batch.api_key && (
+                      <div className="text-xs text-gray-500">
+                        via API key {batch.api_key.name}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-2">{batch.created_at.toLocaleString()}</td>
+                  <td className="p-2 text-right">{batch.created_count}</td>
+                  <td className="p-2 text-right">{batch.updated_count}</td>
+                  <td className="p-2 text-right">{batch.unchanged_count}</td>
+                  <td className="p-2 text-right">{batch.skipped_count}</td>
+                  <td
+                    className={`p-2 text-right ${
+                      batch.failed_count > 0 ? 'text-red-600 font-medium' : ''
+                    }`}
+                  >
+                    {batch.failed_count}
+                  </td>
+                  <td className="p-2">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${
+                        statusStyles[batch.status] ?? ''
+                      }`}
+                    >
+                      {batch.status.replace('_', ' ')}
+                    </span>
+                    {batch.status === 'processing' && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {batch.created_count +
+                          batch.updated_count +
+                          batch.unchanged_count +
+                          batch.skipped_count +
+                          batch.failed_count}{' '}
+                        of {batch.record_count} records
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-400">No imports yet</p>
+      )}
+    </div>
+  )
+}
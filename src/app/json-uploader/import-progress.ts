@@ -0,0 +1,63 @@
+import { ColumnMapping, ImportCounts, ImportSource } from '@/lib/import/types'
+
+/**
+ * Progress of a chunked import, kept in localStorage so an import
+ * interrupted by a reload can pick up where it stopped
+ */
+export interface StoredImportProgress {
+  batchId: number
+  nextIndex: number
+  total: number
+  selectedIndexes: number[] | null
+  counts: ImportCounts
+  // What the saved chunks were parsed with
+  source: ImportSource
+  columnMapping: ColumnMapping | null
+}
+
+const storageKey = (fileHash: string) => `json-uploader:import:${fileHash}`
+
+export function loadImportProgress(
+  fileHash: string
+): StoredImportProgress | null {
+  try {
+    const stored = localStorage.getItem(storageKey(fileHash))
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveImportProgress(
+  fileHash: string,
+  progress: StoredImportProgress
+) {
+  localStorage.setItem(storageKey(fileHash), JSON.stringify(progress))
+}
+
+function mappingKey(columnMapping: ColumnMapping | null | undefined) {
+  return JSON.stringify(
+    Object.entries(columnMapping ?? {})
+      .filter(([, column]) => column)
+      .sort()
+  )
+}
+
+/**
+ * Whether the file parsed with `source` and `columnMapping` gives the same
+ * records the interrupted import was publishing
+ */
+export function matchesImportProgress(
+  progress: StoredImportProgress,
+  source: ImportSource,
+  columnMapping: ColumnMapping | null
+) {
+  return (
+    progress.source === source &&
+    mappingKey(progress.columnMapping) === mappingKey(columnMapping)
+  )
+}
+
+export function clearImportProgress(fileHash: string) {
+  localStorage.removeItem(storageKey(fileHash))
+}
@@ -1,20 +1,55 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
+import Link from 'next/link'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { publishToDatabase } from './actions'
+import {
+  finishImport,
+  getImportStatus,
+  previewImport,
+  publishChunk,
+  startImport,
+} from './actions'
+import ImportPreviewTable from './ImportPreviewTable'
+import ImportProgressBar from './ImportProgressBar'
+import ValidationSummary from './ValidationSummary'
+import CsvColumnMapping from './CsvColumnMapping'
+import {
+  StoredImportProgress,
+  clearImportProgress,
+  loadImportProgress,
+  matchesImportProgress,
+  saveImportProgress,
+} from './import-progress'
+import {
+  ColumnMapping,
+  ImportCounts,
+  ImportSource,
+  ParsedRecord,
+  PreviewRow,
+} from '@/lib/import/types'
+import { SOURCE_ADAPTERS, detectSource } from '@/lib/import/adapters'
+import { addImportCounts, emptyImportCounts } from '@/lib/import/counts'
+import { hashFileContent } from '@/lib/import/hash'
+import { getCsvHeaders, guessColumnMapping } from '@/lib/import/adapters/csv'
 
 const fileSchema = z.object({
   file: z
     .instanceof(File)
     .refine((file) => file.size > 0, 'Please select a file')
-    .refine((file) => file.type === 'application/json', 'File must be JSON'),
+    .refine(
+      (file) => /\.(json|jsonl|ndjson|csv)$/i.test(file.name),
+      'File must be JSON, JSON lines or CSV'
+    ),
 })
 
 type FileFormData = z.infer<typeof fileSchema>
 
+// Records per server action call, well under the 4mb body size limit
+const CHUNK_SIZE = 200
+
 type ToastType = 'success' | 'error' | 'info'
 
 interface ToastProps {
@@ -40,14 +75,37 @@ const Toast = ({ type, message }: ToastProps) => {
 }
 
 export default function JsonUploaderPage() {
-  const [jsonContent, setJsonContent] = useState<string | null>(null)
+  const [fileContent, setFileContent] = useState<string | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [fileHash, setFileHash] = useState<string | null>(null)
+  const [resumableImport, setResumableImport] =
+    useState<StoredImportProgress | null>(null)
+  const [progress, setProgress] = useState<{
+    processed: number
+    total: number
+    counts: ImportCounts
+    startedAt: number
+    startIndex: number
+  } | null>(null)
+  const [sourceSelection, setSourceSelection] = useState<
+    ImportSource | 'auto'
+  >('auto')
+  const [detectedSource, setDetectedSource] = useState<ImportSource | null>(
+    null
+  )
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([])
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
   const [isDragging, setIsDragging] = useState(false)
   const [isPublishing, setIsPublishing] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [previewRows, setPreviewRows] = useState<PreviewRow[] | null>(null)
+  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(
+    new Set()
+  )
   const [toast, setToast] = useState<ToastProps | null>(null)
-  const [publishResult, setPublishResult] = useState<{
-    published: number
-    skipped: number
-  } | null>(null)
+  const [publishResult, setPublishResult] = useState<
+    (ImportCounts & { batchId: number }) | null
+  >(null)
 
   const {
     register,
@@ -68,7 +126,7 @@ export default function JsonUploaderPage() {
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
         const file = e.dataTransfer.files[0]
         setValue('file', file)
-        parseJsonFile(file)
+        readImportFile(file)
       }
     },
     [setValue]
@@ -83,58 +141,255 @@ export default function JsonUploaderPage() {
     setIsDragging(false)
   }, [])
 
-  const parseJsonFile = async (file: File) => {
+  const source = sourceSelection === 'auto' ? detectedSource : sourceSelection
+
+  // Validate in the browser so problems show up before anything is sent
+  const validation = useMemo((): {
+    records: ParsedRecord[] | null
+    error: string | null
+  } => {
+    if (!fileContent || !source) {
+      return { records: null, error: null }
+    }
+    try {
+      const records = SOURCE_ADAPTERS[source].parse(fileContent, {
+        columnMapping: source === 'csv' ? columnMapping : undefined,
+      })
+      return { records, error: null }
+    } catch (error) {
+      return {
+        records: null,
+        error:
+          error instanceof SyntaxError || !(error instanceof Error)
+            ? 'The file could not be parsed. Please check the format and try again.'
+            : error.message,
+      }
+    }
+  }, [fileContent, source, columnMapping])
+
+  const readImportFile = async (file: File) => {
     try {
       const content = await file.text()
-      const formattedJson = JSON.stringify(JSON.parse(content), null, 2)
-      setJsonContent(formattedJson)
+      const headers = /\.csv$/i.test(file.name) ? getCsvHeaders(content) : []
+      const hash = await hashFileContent(content)
+
+      setFileContent(content)
+      setFileName(file.name)
+      setFileHash(hash)
+      setResumableImport(null)
+      setDetectedSource(detectSource(content, file.name))
+      setCsvHeaders(headers)
+      setColumnMapping(guessColumnMapping(headers))
       setPublishResult(null)
+      setPreviewRows(null)
+
+      // Offer to resume if this file was being imported when the tab closed
+      const stored = loadImportProgress(hash)
+      if (stored) {
+        const status = await getImportStatus(stored.batchId)
+        if (status === 'processing') {
+          // Parse the file the way the saved chunks were parsed
+          if (stored.source) setSourceSelection(stored.source)
+          if (stored.columnMapping) setColumnMapping(stored.columnMapping)
+          setResumableImport(stored)
+        } else {
+          clearImportProgress(hash)
+        }
+      }
     } catch (error) {
-      console.error('Error parsing JSON file:', error)
-      setJsonContent(null)
+      console.error('Error reading file:', error)
+      setFileContent(null)
       setToast({
         type: 'error',
-        message: 'Invalid JSON file. Please check the format and try again.',
+        message: 'The file could not be read. Please try again.',
       })
       setTimeout(() => setToast(null), 5000)
     }
   }
 
   const onSubmit = async (data: FileFormData) => {
-    await parseJsonFile(data.file)
+    await readImportFile(data.file)
   }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0]
-      parseJsonFile(file)
+      readImportFile(file)
     }
   }
 
-  const handlePublish = async () => {
-    if (!jsonContent) return
+  const handlePreview = async () => {
+    const records = validation.records
+    if (!records) return
 
-    setIsPublishing(true)
+    setIsPreviewing(true)
     try {
-      const result = await publishToDatabase(jsonContent)
+      const rows: PreviewRow[] = []
+
+      for (let i = 0; i < records.length; i += CHUNK_SIZE) {
+        const result = await previewImport(records.slice(i, i + CHUNK_SIZE))
+        if (!result.success) {
+          throw new Error(result.error || 'An error occurred during preview.')
+        }
+        rows.push(...result.rows)
+      }
+
+      setPreviewRows(rows)
+      // Select everything that would change the database by default
+      setSelectedIndexes(
+        new Set(
+          rows
+            .filter(
+              (row) => row.outcome === 'created' || row.outcome === 'updated'
+            )
+            .map((row) => row.index)
+        )
+      )
+    } catch (error) {
+      console.error('Error previewing data:', error)
+      setToast({
+        type: 'error',
+        message:
+          error instanceof Error ? error.message : 'An unknown error occurred',
+      })
+      setTimeout(() => setToast(null), 5000)
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleToggleRow = (index: number) => {
+    const next = new Set(selectedIndexes)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setSelectedIndexes(next)
+  }
+
+  const handleToggleAll = (isSelected: boolean) => {
+    if (!previewRows) return
+
+    setSelectedIndexes(
+      isSelected
+        ? new Set(
+            previewRows
+              .filter((row) => row.outcome !== 'skipped')
+              .map((row) => row.index)
+          )
+        : new Set()
+    )
+  }
 
-      if (result.success) {
-        setToast({
-          type: 'success',
-          message: `Properties successfully published to database.`,
+  const handlePublish = async (resume?: StoredImportProgress) => {
+    const allRecords = validation.records
+    if (!allRecords || !source || !fileHash) return
+
+    // After a preview only the checked records are published
+    const selected = resume
+      ? resume.selectedIndexes
+      : previewRows
+      ? [...selectedIndexes]
+      : null
+    const selectedSet = selected ? new Set(selected) : null
+    const records = selectedSet
+      ? allRecords.filter((record) => selectedSet.has(record.index))
+      : allRecords
+    const mapping = source === 'csv' ? columnMapping : null
+
+    // Chunks parsed another way would not line up with the saved ones
+    if (resume && !matchesImportProgress(resume, source, mapping)) {
+      setToast({
+        type: 'error',
+        message:
+          'The source or column mapping changed since this import started. Change them back or discard the unfinished import.',
+      })
+      setTimeout(() => setToast(null), 5000)
+      return
+    }
+
+    setIsPublishing(true)
+    setResumableImport(null)
+    try {
+      let batchId = resume?.batchId
+      if (!batchId) {
+        const started = await startImport({
+          fileName: fileName || 'upload',
+          fileHash,
+          source,
+          recordCount: records.length,
         })
-        setPublishResult({
-          published: result.published,
-          skipped: result.skipped,
+        if (!started.success || !started.batchId) {
+          throw new Error(started.error || 'Failed to start the import.')
+        }
+        batchId = started.batchId
+      }
+
+      const saveProgress = (nextIndex: number, counts: ImportCounts) =>
+        saveImportProgress(fileHash, {
+          batchId,
+          nextIndex,
+          total: records.length,
+          selectedIndexes: selected,
+          counts,
+          source,
+          columnMapping: mapping,
         })
-      } else {
-        setToast({
-          type: 'error',
-          message: result.error || 'An error occurred during publishing.',
+
+      const startIndex = resume?.nextIndex ?? 0
+      let counts = resume?.counts ?? emptyImportCounts()
+      // The batch can be resumed even if its first chunk never makes it
+      saveProgress(startIndex, counts)
+      const startedAt = Date.now()
+      setProgress({
+        processed: startIndex,
+        total: records.length,
+        counts,
+        startedAt,
+        startIndex,
+      })
+
+      for (let i = startIndex; i < records.length; i += CHUNK_SIZE) {
+        const result = await publishChunk(
+          batchId,
+          i / CHUNK_SIZE,
+          records.slice(i, i + CHUNK_SIZE)
+        )
+        if (!result.success) {
+          throw new Error(
+            result.error || 'An error occurred during publishing.'
+          )
+        }
+
+        counts = addImportCounts(counts, result)
+        const nextIndex = Math.min(i + CHUNK_SIZE, records.length)
+        saveProgress(nextIndex, counts)
+        setProgress({
+          processed: nextIndex,
+          total: records.length,
+          counts,
+          startedAt,
+          startIndex,
         })
       }
+
+      const finished = await finishImport(batchId)
+      if (!finished.success) {
+        throw new Error(finished.error || 'Failed to finish the import.')
+      }
+      clearImportProgress(fileHash)
+
+      setToast({
+        type: 'success',
+        message: `Properties successfully published to database.`,
+      })
+      setPublishResult({ batchId, ...counts })
+      setPreviewRows(null)
     } catch (error) {
       console.error('Error publishing data:', error)
+      // Whatever was saved so far can be resumed
+      setResumableImport(loadImportProgress(fileHash))
       setToast({
         type: 'error',
         message:
@@ -142,6 +397,7 @@ export default function JsonUploaderPage() {
       })
     } finally {
       setIsPublishing(false)
+      setProgress(null)
       setTimeout(() => setToast(null), 5000)
     }
   }
@@ -150,19 +406,76 @@ export default function JsonUploaderPage() {
     <div className="max-w-4xl mx-auto p-4">
       {toast && <Toast type={toast.type} message={toast.message} />}
 
-      <h1 className="text-2xl font-bold mb-6">JSON Uploader</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">JSON Uploader</h1>
+        <Link href="/json-uploader/history" className="hover:underline">
+          Import History
+        </Link>
+      </div>
 
       {publishResult && (
         <div className="text-gray-800 mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
           <h2 className="text-lg font-semibold mb-2">Publish Results</h2>
           <p className="mb-1">
-            Number of properties published:{' '}
-            <span className="font-medium">{publishResult.published}</span>
+            Number of properties created:{' '}
+            <span className="font-medium">{publishResult.created}</span>
           </p>
-          <p>
+          <p className="mb-1">
+            Number of properties updated:{' '}
+            <span className="font-medium">{publishResult.updated}</span>
+          </p>
+          <p className="mb-1">
+            Number of properties unchanged:{' '}
+            <span className="font-medium">{publishResult.unchanged}</span>
+          </p>
+          <p className="mb-1">
             Number of properties skipped:{' '}
             <span className="font-medium">{publishResult.skipped}</span>
           </p>
+          <p>
+            Number of properties failed:{' '}
+            <span className="font-medium">{publishResult.failed}</span>
+          </p>
+          {publishResult && (
+            <Link
+              href={`/json-uploader/history/${publishResult.batchId}`}
+              className="inline-block mt-2 text-blue-600 hover:underline"
+            >
+              View import report
+            </Link>
+          )}
+        </div>
+      )}
+
+      {progress && <ImportProgressBar {...progress} />}
+
+      {resumableImport && !isPublishing && (
+        <div className="text-gray-800 mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md flex justify-between items-center">
+          <p>
+            An unfinished import of this file was found (
+            {resumableImport.nextIndex.toLocaleString()} of{' '}
+            {resumableImport.total.toLocaleString()} records published).
+          </p>
+          <div className="space-x-2 whitespace-nowrap pl-4">
+            <button
+              type="button"
+              onClick={() => handlePublish(resumableImport)}
+              disabled={!validation.records}
+              className="px-3 py-1 rounded text-white bg-green-500 hover:bg-green-600"
+            >
+              Resume
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                if (fileHash) clearImportProgress(fileHash)
+                setResumableImport(null)
+              }}
+              className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+            >
+              Discard
+            </button>
+          </div>
         </div>
       )}
 
@@ -191,15 +504,15 @@ export default function JsonUploaderPage() {
               />
             </svg>
             <p className="text-lg font-medium">
-              Drag and drop your JSON file here, or click to browse
+              Drag and drop your export file here, or click to browse
             </p>
             <p className="text-sm text-gray-500">
-              Only JSON files are accepted
+              Zillow JSON exports, CSV and JSON lines files are accepted
             </p>
             <input
               id="file"
               type="file"
-              accept="application/json"
+              accept=".json,.jsonl,.ndjson,.csv"
               className="hidden"
               {...register('file')}
               onChange={handleFileChange}
@@ -226,8 +539,15 @@ export default function JsonUploaderPage() {
             type="button"
             onClick={() => {
               reset()
-              setJsonContent(null)
+              setFileContent(null)
+              setFileName(null)
+              setFileHash(null)
+              setResumableImport(null)
+              setDetectedSource(null)
+              setCsvHeaders([])
+              setColumnMapping({})
               setPublishResult(null)
+              setPreviewRows(null)
             }}
             className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
           >
@@ -236,25 +556,105 @@ export default function JsonUploaderPage() {
 
           <button
             type="button"
-            onClick={handlePublish}
-            disabled={!jsonContent || isPublishing}
+            onClick={handlePreview}
+            disabled={!validation.records || isPreviewing || isPublishing}
+            className={`px-4 py-2 rounded ${
+              !validation.records || isPreviewing || isPublishing
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-indigo-500 text-white hover:bg-indigo-600'
+            }`}
+          >
+            {isPreviewing ? 'Previewing...' : 'Preview Changes'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => handlePublish()}
+            disabled={
+              !validation.records ||
+              isPublishing ||
+              (previewRows !== null && selectedIndexes.size === 0)
+            }
             className={`px-4 py-2 rounded ${
-              !jsonContent || isPublishing
+              !validation.records ||
+              isPublishing ||
+              (previewRows !== null && selectedIndexes.size === 0)
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 : 'bg-green-500 text-white hover:bg-green-600'
             }`}
           >
-            {isPublishing ? 'Publishing...' : 'Publish to Database'}
+            {isPublishing
+              ? 'Publishing...'
+              : previewRows
+              ? `Publish Selected (${selectedIndexes.size})`
+              : 'Publish to Database'}
           </button>
         </div>
       </form>
 
-      {jsonContent && (
+      {fileContent && (
+        <div className="text-gray-800 mb-6 p-4 border rounded-md bg-white shadow">
+          <label className="flex items-center space-x-2">
+            <span className="font-medium">Source</span>
+            <select
+              value={sourceSelection}
+              onChange={(e) => {
+                setSourceSelection(e.target.value as ImportSource | 'auto')
+                setPreviewRows(null)
+              }}
+              className="p-1 border rounded"
+            >
+              <option value="auto">
+                Auto-detect
+                {detectedSource
+                  ? ` (${SOURCE_ADAPTERS[detectedSource].label})`
+                  : ' (not recognized)'}
+              </option>
+              {Object.values(SOURCE_ADAPTERS).map((adapter) => (
+                <option key={adapter.id} value={adapter.id}>
+                  {adapter.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!source && (
+            <p className="text-red-600 text-sm mt-2">
+              The file format was not recognized. Please choose a source.
+            </p>
+          )}
+          {validation.error && (
+            <p className="text-red-600 text-sm mt-2">{validation.error}</p>
+          )}
+        </div>
+      )}
+
+      {source === 'csv' && csvHeaders.length > 0 && !previewRows && (
+        <CsvColumnMapping
+          headers={csvHeaders}
+          mapping={columnMapping}
+          onChange={(mapping) => setColumnMapping(mapping)}
+        />
+      )}
+
+      {validation.records && !previewRows && (
+        <ValidationSummary records={validation.records} />
+      )}
+
+      {previewRows && (
+        <ImportPreviewTable
+          rows={previewRows}
+          selectedIndexes={selectedIndexes}
+          onToggleRow={handleToggleRow}
+          onToggleAll={handleToggleAll}
+        />
+      )}
+
+      {fileContent && (
         <div className="mt-8">
-          <h2 className="text-xl font-bold mb-4">JSON Content</h2>
+          <h2 className="text-xl font-bold mb-4">File Content</h2>
           <div className="bg-gray-800 rounded-lg p-4 overflow-auto max-h-[500px]">
             <pre className="text-gray-100 font-mono text-sm whitespace-pre-wrap">
-              {jsonContent}
+              {fileContent}
             </pre>
           </div>
         </div>
@@ -0,0 +1,59 @@
+import { Activity } from '@prisma/client'
+import Link from 'next/link'
+import {
+  describeActivityChange,
+  getActivityAction,
+} from '@/lib/activity-actions'
+
+export interface ActivityWithUser extends Activity {
+  user: { name: string | null; email: string } | null
+}
+
+interface ActivityTimelineProps {
+  activities: ActivityWithUser[]
+  propertyId: number
+}
+
+export default function ActivityTimeline({
+  activities,
+  propertyId,
+}: ActivityTimelineProps) {
+  return (
+    <div className="mt-6 border rounded-lg p-4 bg-white shadow">
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+        <h2 className="text-2xl font-semibold">ACTIVITY</h2>
+        <Link
+          href={`/activity?property=${propertyId}`}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Full history
+        </Link>
+      </div>
+      {activities.length > 0 ? (
+        <ol className="space-y-2 text-sm">
+          {activities.map((activity) => {
+            const change = describeActivityChange(activity)
+            return (
+              <li key={activity.id} className="border-l-2 pl-3">
+                <div>
+                  <span className="font-medium">
+                    {getActivityAction(activity.action).label}
+                  </span>
+                  {change && <span className="text-gray-600"> {change}</span>}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {activity.created_at.toLocaleString()} by{' '}
+                  {activity.user
+                    ? activity.user.name || activity.user.email
+                    : 'System'}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      ) : (
+        <p className="text-gray-400 text-sm">No activity yet</p>
+      )}
+    </div>
+  )
+}
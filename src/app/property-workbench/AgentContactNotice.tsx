@@ -0,0 +1,47 @@
+import Link from 'next/link'
+import { Agent } from '@prisma/client'
+import { isBeforeStage } from '@/lib/lead-stages'
+
+export interface AgentWithContact extends Agent {
+  last_contacted_by: { name: string | null; email: string } | null
+  _count: { properties: number }
+}
+
+interface AgentContactNoticeProps {
+  agent: AgentWithContact
+  // Stage of the property being viewed
+  stage: string
+}
+
+/**
+ * Links to the agent's other properties and warns before reaching out to
+ * an agent someone already contacted about another listing
+ */
+export default function AgentContactNotice({
+  agent,
+  stage,
+}: AgentContactNoticeProps) {
+  // Leads past this point were already part of the outreach
+  const isUncontacted = isBeforeStage(stage, 'contacted')
+
+  return (
+    <div className="mb-4 space-y-2 text-sm">
+      {isUncontacted && agent.last_contacted_at && (
+        <p className="p-2 rounded bg-yellow-50 border border-yellow-200 text-yellow-800">
+          Already contacted this agent on{' '}
+          {agent.last_contacted_at.toLocaleDateString()}
+          {agent.last_contacted_by &&
+            ` (${agent.last_contacted_by.name || agent.last_contacted_by.email})`}
+        </p>
+      )}
+      <Link
+        href={`/property-workbench/agents/${agent.id}`}
+        className="text-blue-600 hover:underline"
+      >
+        {agent._count.properties === 1
+          ? 'View agent'
+          : `View agent and their ${agent._count.properties} properties`}
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  bulkSetPropertyStage,
+  bulkUpdatePropertyTags,
+  deleteProperties,
+  exportProperties,
+} from './actions'
+import { BulkTarget } from './types'
+import { LEAD_STAGES, LEAD_STAGE_IDS, LeadStage } from '@/lib/lead-stages'
+import { parseTags } from '@/lib/utils'
+import ConfirmationDialog from '@/components/ConfirmationDialog'
+
+export type BulkAction =
+  'stage' | 'addTags' | 'removeTags' | 'delete' | 'export'
+
+interface PendingAction {
+  action: BulkAction
+  stage?: LeadStage
+  tags?: string[]
+}
+
+interface BulkActionBarProps {
+  target: BulkTarget
+  // Properties the actions apply to, or null while counting them
+  count: number | null
+  isAllMatching: boolean
+  canSelectAllMatching: boolean
+  onSelectAllMatching: () => void
+  onClear: () => void
+  // Passed the IDs moved to the trash when the action is a delete
+  onComplete: (action: BulkAction, deletedIds?: number[]) => void
+}
+
+function pluralize(count: number | null) {
+  if (count === null) return 'the selected properties'
+  return `${count.toLocaleString()} ${count === 1 ? 'property' : 'properties'}`
+}
+
+/**
+ * Start a download of a CSV file made in the browser
+ */
+function downloadCsv(fileName: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BulkActionBar({
+  target,
+  count,
+  isAllMatching,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClear,
+  onComplete,
+}: BulkActionBarProps) {
+  const [tagText, setTagText] = useState('')
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  // The action is kept while the dialog fades out so its text stays put
+  const openConfirmation = (pending: PendingAction) => {
+    setPendingAction(pending)
+    setIsConfirmOpen(true)
+  }
+
+  const handleTagAction = (action: 'addTags' | 'removeTags') => {
+    const tags = parseTags(tagText)
+    if (tags.length === 0) {
+      setErrorMessage('Enter one or more tags, separated by commas')
+      return
+    }
+    setErrorMessage(null)
+    openConfirmation({ action, tags })
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return
+
+    setIsWorking(true)
+    setErrorMessage(null)
+    let deletedIds: number[] | undefined
+    try {
+      switch (pendingAction.action) {
+        case 'stage':
+          await bulkSetPropertyStage(target, pendingAction.stage ?? 'new')
+          break
+        case 'addTags':
+          await bulkUpdatePropertyTags(target, { add: pendingAction.tags })
+          setTagText('')
+          break
+        case 'removeTags':
+          await bulkUpdatePropertyTags(target, { remove: pendingAction.tags })
+          setTagText('')
+          break
+        case 'delete':
+          deletedIds = (await deleteProperties(target)).ids
+          break
+        case 'export': {
+          const { fileName, csv } = await exportProperties(target)
+          downloadCsv(fileName, csv)
+          break
+        }
+      }
+      onComplete(pendingAction.action, deletedIds)
+    } catch (error) {
+      console.error('Error running bulk action:', error)
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      )
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const getConfirmation = (pending: PendingAction) => {
+    const properties = pluralize(count)
+    const tags = pending.tags?.map((tag) => `"${tag}"`).join(', ')
+
+    switch (pending.action) {
+      case 'stage': {
+        const label = LEAD_STAGES[pending.stage ?? 'new'].label
+        return {
+          title: 'Change Stage',
+          message: `Move ${properties} to ${label}?`,
+          confirmLabel: 'Move',
+        }
+      }
+      case 'addTags':
+        return {
+          title: 'Add Tags',
+          message: `Tag ${properties} with ${tags}?`,
+          confirmLabel: 'Add Tags',
+        }
+      case 'removeTags':
+        return {
+          title: 'Remove Tags',
+          message: `Remove ${tags} from ${properties}?`,
+          confirmLabel: 'Remove Tags',
+        }
+      case 'delete':
+        return {
+          title: 'Delete Properties',
+          message: `Are you sure you want to delete ${properties}? They will be moved to the Trash, where they can be restored until they are purged.`,
+          confirmLabel: 'Delete',
+        }
+      case 'export':
+        return {
+          title: 'Export Properties',
+          message: `Download ${properties} as a CSV file?`,
+          confirmLabel: 'Export',
+        }
+    }
+  }
+
+  const confirmation = pendingAction ? getConfirmation(pendingAction) : null
+
+  return (
+    <>
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 p-3 bg-white border rounded-lg shadow-lg text-sm text-gray-800 flex flex-wrap items-center gap-3">
+        <span className="font-medium">
+          {isAllMatching
+            ? `All ${count === null ? '' : `${count.toLocaleString()} `}matching selected`
+            : `${pluralize(count)} selected`}
+        </span>
+        {canSelectAllMatching && !isAllMatching && (
+          <button
+            onClick={onSelectAllMatching}
+            className="text-blue-600 hover:underline"
+          >
+            Select all matching
+          </button>
+        )}
+
+        <select
+          value=""
+          onChange={(e) =>
+            openConfirmation({
+              action: 'stage',
+              stage: e.target.value as LeadStage,
+            })
+          }
+          disabled={isWorking}
+          className="p-1 border rounded"
+        >
+          <option value="" disabled>
+            Move to stage...
+          </option>
+          {LEAD_STAGE_IDS.map((stage) => (
+            <option key={stage} value={stage}>
+              {LEAD_STAGES[stage].label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            placeholder="tags, comma separated"
+            className="p-1 border rounded w-40"
+          />
+          <button
+            onClick={() => handleTagAction('addTags')}
+            disabled={isWorking}
+            className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            Add
+          </button>
+          <button
+            onClick={() => handleTagAction('removeTags')}
+            disabled={isWorking}
+            className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            Remove
+          </button>
+        </div>
+
+        <button
+          onClick={() => openConfirmation({ action: 'export' })}
+          disabled={isWorking}
+          className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() => openConfirmation({ action: 'delete' })}
+          disabled={isWorking}
+          className="px-2 py-1 rounded text-white bg-red-600 hover:bg-red-700"
+        >
+          Delete
+        </button>
+        <button onClick={onClear} className="text-gray-500 hover:underline">
+          Clear
+        </button>
+
+        {isWorking && <span className="text-gray-500">Working...</span>}
+        {errorMessage && <span className="text-red-600">{errorMessage}</span>}
+      </div>
+
+      {/* Outside the bar, whose transform would pin the dialog to it */}
+      <ConfirmationDialog
+        isOpen={isConfirmOpen}
+        onClose={() => setIsConfirmOpen(false)}
+        onConfirm={handleConfirm}
+        title={confirmation?.title ?? ''}
+        message={confirmation?.message ?? ''}
+        confirmLabel={confirmation?.confirmLabel}
+      />
+    </>
+  )
+}
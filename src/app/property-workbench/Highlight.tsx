@@ -0,0 +1,33 @@
+interface HighlightProps {
+  text: string
+  terms: string[]
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Marks the parts of `text` that match any of the search terms
+ */
+export default function Highlight({ text, terms }: HighlightProps) {
+  const words = terms.filter(Boolean).map(escapeRegExp)
+  if (words.length === 0) return <>{text}</>
+
+  // Splitting on a capturing group keeps the matches at odd indexes
+  const parts = text.split(new RegExp(`(${words.join('|')})`, 'gi'))
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { FilterOptions } from './types'
+import {
+  PropertyFilters,
+  applyPropertyFilters,
+  countActiveFilters,
+} from '@/lib/property-filters'
+
+interface LeadFiltersProps {
+  filters: PropertyFilters
+  options: FilterOptions
+}
+
+const inputClass =
+  'w-full p-1 border rounded text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none'
+
+export default function LeadFilters({ filters, options }: LeadFiltersProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [isOpen, setIsOpen] = useState(countActiveFilters(filters) > 0)
+  const [draft, setDraft] = useState<PropertyFilters>(filters)
+  const [isCopied, setIsCopied] = useState(false)
+  const activeCount = countActiveFilters(filters)
+
+  // Follow the URL when it changes, e.g. on back/forward
+  useEffect(() => {
+    setDraft(filters)
+  }, [filters])
+
+  const updateDraft = <K extends keyof PropertyFilters>(
+    key: K,
+    value: PropertyFilters[K]
+  ) => {
+    setDraft((current) => ({ ...current, [key]: value }))
+  }
+
+  const handleNumberChange = (
+    key: 'minPrice' | 'maxPrice' | 'minDays' | 'maxDays',
+    value: string
+  ) => {
+    updateDraft(key, value === '' ? undefined : Number(value))
+  }
+
+  const handleTextChange = (
+    key: 'state' | 'city' | 'zipcode' | 'listingStatus' | 'agentBadgeType',
+    value: string
+  ) => {
+    updateDraft(key, value.trim() === '' ? undefined : value)
+  }
+
+  // Filters are applied through the URL, which reloads the first page
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    const params = applyPropertyFilters(searchParams, draft)
+    router.push(`?${params.toString()}`, { scroll: false })
+  }
+
+  const handleClear = () => {
+    setDraft({})
+    const params = applyPropertyFilters(searchParams, {})
+    router.push(`?${params.toString()}`, { scroll: false })
+  }
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href)
+    setIsCopied(true)
+    setTimeout(() => setIsCopied(false), 2000)
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-white shadow">
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-2xl font-semibold"
+        >
+          FILTERS {activeCount > 0 && `(${activeCount})`}
+        </button>
+        <button
+          onClick={handleCopyLink}
+          className="text-sm text-blue-600 hover:underline"
+          title="Copy a link to this filtered view"
+        >
+          {isCopied ? 'Copied!' : 'Copy link'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleApply} className="mt-4 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              State
+              <select
+                value={draft.state ?? ''}
+                onChange={(e) => handleTextChange('state', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {options.states.map((state) => (
+                  <option key={state} value={state}>
+                    {state}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              City
+              <input
+                type="text"
+                value={draft.city ?? ''}
+                onChange={(e) => handleTextChange('city', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Zipcode
+              <input
+                type="text"
+                value={draft.zipcode ?? ''}
+                onChange={(e) => handleTextChange('zipcode', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Listing status
+              <select
+                value={draft.listingStatus ?? ''}
+                onChange={(e) =>
+                  handleTextChange('listingStatus', e.target.value)
+                }
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {options.listingStatuses.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Min price
+              <input
+                type="number"
+                min={0}
+                value={draft.minPrice ?? ''}
+                onChange={(e) => handleNumberChange('minPrice', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Max price
+              <input
+                type="number"
+                min={0}
+                value={draft.maxPrice ?? ''}
+                onChange={(e) => handleNumberChange('maxPrice', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Min days on Zillow
+              <input
+                type="number"
+                min={0}
+                value={draft.minDays ?? ''}
+                onChange={(e) => handleNumberChange('minDays', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Max days on Zillow
+              <input
+                type="number"
+                min={0}
+                value={draft.maxDays ?? ''}
+                onChange={(e) => handleNumberChange('maxDays', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              Agent type
+              <select
+                value={draft.agentBadgeType ?? ''}
+                onChange={(e) =>
+                  handleTextChange('agentBadgeType', e.target.value)
+                }
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {options.agentBadgeTypes.map((badge) => (
+                  <option key={badge} value={badge}>
+                    {badge}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Generated images
+              <select
+                value={
+                  draft.hasGeneratedImages === undefined
+                    ? ''
+                    : draft.hasGeneratedImages
+                      ? '1'
+                      : '0'
+                }
+                onChange={(e) =>
+                  updateDraft(
+                    'hasGeneratedImages',
+                    e.target.value === '' ? undefined : e.target.value === '1'
+                  )
+                }
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                <option value="1">Has generated images</option>
+                <option value="0">No generated images</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import PriceDropBadge from './PriceDropBadge'
+import { LeadProperty, StageCounts } from './types'
+import { LEAD_STAGES, LEAD_STAGE_IDS, LeadStage } from '@/lib/lead-stages'
+
+interface LeadListsProps {
+  leads: LeadProperty[]
+  stageCounts: StageCounts
+  activeStage: LeadStage
+  hasMore: boolean
+  isLoadingMore: boolean
+  selectedPropertyId?: number
+  checkedIds: number[]
+  onLeadSelect: (id: number) => void
+  onLoadMore: () => void
+  onToggleChecked: (id: number, index: number, shiftKey: boolean) => void
+  onToggleAllChecked: () => void
+}
+
+export default function LeadLists({
+  leads,
+  stageCounts,
+  activeStage,
+  hasMore,
+  isLoadingMore,
+  selectedPropertyId,
+  checkedIds,
+  onLeadSelect,
+  onLoadMore,
+  onToggleChecked,
+  onToggleAllChecked,
+}: LeadListsProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // The stage is part of the URL so it is kept when sharing a filtered view
+  const handleStageSelect = (stage: LeadStage) => {
+    const params = new URLSearchParams(searchParams)
+    if (stage === 'new') {
+      params.delete('stage')
+    } else {
+      params.set('stage', stage)
+    }
+    router.push(`?${params.toString()}`, { scroll: false })
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-white shadow">
+      <h2 className="text-2xl font-semibold mb-4 border-b pb-2">LEADS</h2>
+
+      {/* Stage tabs */}
+      <div className="flex flex-wrap gap-1 mb-4">
+        {LEAD_STAGE_IDS.map((stage) => (
+          <button
+            key={stage}
+            onClick={() => handleStageSelect(stage)}
+            className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${
+              stage === activeStage
+                ? `${LEAD_STAGES[stage].badgeClass} ring-2 ring-offset-1 ring-blue-400`
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {LEAD_STAGES[stage].label} ({stageCounts[stage]})
+          </button>
+        ))}
+      </div>
+
+      {leads.length > 0 ? (
+        <div className="overflow-auto h-[640px]">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="p-2 w-6">
+                  <input
+                    type="checkbox"
+                    checked={leads.every((lead) =>
+                      checkedIds.includes(lead.id)
+                    )}
+                    onChange={onToggleAllChecked}
+                    title="Select all shown"
+                  />
+                </th>
+                <th className="p-2 text-left">Address</th>
+                <th className="p-2 text-left">State</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leads.map((lead, index) => (
+                <tr
+                  key={lead.id}
+                  className={`border-b hover:bg-gray-50 cursor-pointer ${
+                    selectedPropertyId === lead.id ? 'bg-blue-50' : ''
+                  }`}
+                  onClick={() => onLeadSelect(lead.id)}
+                >
+                  <td className="p-2">
+                    {/* Shift-click selects the range since the last click */}
+                    <input
+                      type="checkbox"
+                      checked={checkedIds.includes(lead.id)}
+                      readOnly
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onToggleChecked(lead.id, index, e.shiftKey)
+                      }}
+                    />
+                  </td>
+                  <td className="p-2">
+                    {lead.street_address || (
+                      <span className="text-gray-400">No Address</span>
+                    )}
+                    <PriceDropBadge
+                      price={lead.price}
+                      previous_price={lead.previous_price}
+                    />
+                  </td>
+                  <td className="p-2">
+                    {lead.state || <span className="text-gray-400">N/A</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hasMore && (
+            <div className="p-2 text-center">
+              <button
+                onClick={onLoadMore}
+                disabled={isLoadingMore}
+                className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+              >
+                {isLoadingMore
+                  ? 'Loading...'
+                  : `Show more (${leads.length} of ${stageCounts[activeStage]})`}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-400">
+          No {LEAD_STAGES[activeStage].label.toLowerCase()} leads found
+        </p>
+      )}
+    </div>
+  )
+}
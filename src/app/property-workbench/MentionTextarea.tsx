@@ -0,0 +1,145 @@
+'use client'
+
+import { RefObject, useRef, useState } from 'react'
+import {
+  Teammate,
+  applyMention,
+  getMentionHandle,
+  getMentionSuggestions,
+  getPartialMention,
+} from '@/lib/mentions'
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  // Called on Ctrl+Enter
+  onSubmit: () => void
+  teammates: Teammate[]
+  textareaRef?: RefObject<HTMLTextAreaElement | null>
+  placeholder?: string
+  disabled?: boolean
+  autoFocus?: boolean
+}
+
+/**
+ * Textarea that suggests teammates to mention after typing @
+ */
+export default function MentionTextarea({
+  value,
+  onChange,
+  onSubmit,
+  teammates,
+  textareaRef,
+  placeholder,
+  disabled,
+  autoFocus,
+}: MentionTextareaProps) {
+  const ownRef = useRef<HTMLTextAreaElement>(null)
+  const ref = textareaRef ?? ownRef
+  const [suggestions, setSuggestions] = useState<Teammate[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const updateSuggestions = (text: string, caret: number) => {
+    const partial = getPartialMention(text, caret)
+    setSuggestions(
+      partial === null ? [] : getMentionSuggestions(partial, teammates)
+    )
+    setActiveIndex(0)
+  }
+
+  const chooseSuggestion = (teammate: Teammate) => {
+    const textarea = ref.current
+    if (!textarea) return
+
+    const result = applyMention(value, textarea.selectionStart, teammate)
+    onChange(result.text)
+    setSuggestions([])
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(result.caret, result.caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          setActiveIndex((activeIndex + 1) % suggestions.length)
+          break
+        case 'ArrowUp':
+          setActiveIndex(
+            (activeIndex - 1 + suggestions.length) % suggestions.length
+          )
+          break
+        case 'Enter':
+        case 'Tab':
+          chooseSuggestion(suggestions[activeIndex])
+          break
+        case 'Escape':
+          setSuggestions([])
+          break
+        default:
+          return
+      }
+      // Keep the key from also reaching the triage shortcuts
+      e.preventDefault()
+      e.stopPropagation()
+      return
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      onSubmit()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        autoFocus={autoFocus}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateSuggestions(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setSuggestions([])}
+        className="w-full h-20 p-2 border rounded focus:ring-2 focus:ring-blue-500 focus:outline-none text-sm"
+        placeholder={placeholder}
+        disabled={disabled}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 top-full left-0 right-0 -mt-1 bg-white border rounded shadow text-sm"
+        >
+          {suggestions.map((teammate, index) => (
+            <li
+              key={teammate.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea while choosing
+              onMouseDown={(e) => {
+                e.preventDefault()
+                chooseSuggestion(teammate)
+              }}
+              className={`px-2 py-1 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-medium">
+                @{getMentionHandle(teammate.email)}
+              </span>
+              {teammate.name && (
+                <span className="ml-2 text-xs text-gray-500">
+                  {teammate.name}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
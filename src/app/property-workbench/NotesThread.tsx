@@ -0,0 +1,245 @@
+'use client'
+
+import { RefObject, useState } from 'react'
+import { PropertyNote, PropertyNoteRevision } from '@prisma/client'
+import {
+  addPropertyNote,
+  editPropertyNote,
+  setPropertyNotePinned,
+} from './actions'
+import MentionTextarea from './MentionTextarea'
+import { Teammate, getMentionHandle, splitMentions } from '@/lib/mentions'
+
+interface NoteUser {
+  name: string | null
+  email: string
+}
+
+export interface PropertyNoteWithHistory extends PropertyNote {
+  author: NoteUser | null
+  revisions: (PropertyNoteRevision & { editor: NoteUser | null })[]
+}
+
+interface NotesThreadProps {
+  propertyId: number
+  notes: PropertyNoteWithHistory[]
+  teammates: Teammate[]
+  // Focused by the n shortcut in triage mode
+  composerRef?: RefObject<HTMLTextAreaElement | null>
+  // Reloads the property after a note changes
+  onChange: () => Promise<void>
+}
+
+function getUserName(user: NoteUser | null) {
+  return user ? user.name || user.email : 'Unknown'
+}
+
+function NoteBody({ body, handles }: { body: string; handles: Set<string> }) {
+  return (
+    <p className="whitespace-pre-wrap">
+      {splitMentions(body, handles).map((part, index) =>
+        part.isMention ? (
+          <span key={index} className="font-medium text-blue-700">
+            {part.text}
+          </span>
+        ) : (
+          part.text
+        )
+      )}
+    </p>
+  )
+}
+
+export default function NotesThread({
+  propertyId,
+  notes,
+  teammates,
+  composerRef,
+  onChange,
+}: NotesThreadProps) {
+  const [draft, setDraft] = useState('')
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editText, setEditText] = useState('')
+  const [historyId, setHistoryId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const handles = new Set(
+    teammates.map((teammate) => getMentionHandle(teammate.email))
+  )
+
+  const save = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    setErrorMessage(null)
+    try {
+      await action()
+      await onChange()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      setErrorMessage(failure)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!draft.trim() || isSaving) return
+    if (
+      await save(() => addPropertyNote(propertyId, draft), 'Failed to add note')
+    ) {
+      setDraft('')
+    }
+  }
+
+  const handleEdit = async () => {
+    if (editingId === null || !editText.trim() || isSaving) return
+    if (
+      await save(
+        () => editPropertyNote(editingId, editText),
+        'Failed to edit note'
+      )
+    ) {
+      setEditingId(null)
+    }
+  }
+
+  const startEditing = (note: PropertyNoteWithHistory) => {
+    setEditingId(note.id)
+    setEditText(note.body)
+  }
+
+  return (
+    <div className="pt-2">
+      <h3 className="text-lg font-medium mb-2">Notes</h3>
+
+      <MentionTextarea
+        value={draft}
+        onChange={setDraft}
+        onSubmit={handleAdd}
+        teammates={teammates}
+        textareaRef={composerRef}
+        placeholder="Add a note, @ to mention a teammate..."
+        disabled={isSaving}
+      />
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs text-gray-400">Ctrl+Enter to post</span>
+        <button
+          onClick={handleAdd}
+          disabled={isSaving || !draft.trim()}
+          className="px-2 py-1 text-sm rounded text-white bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400"
+        >
+          {isSaving && editingId === null ? 'Posting...' : 'Post'}
+        </button>
+      </div>
+
+      {errorMessage && (
+        <p className="mb-2 text-sm text-red-600">{errorMessage}</p>
+      )}
+
+      {notes.length > 0 ? (
+        <ul className="space-y-2 text-sm">
+          {notes.map((note) => (
+            <li
+              key={note.id}
+              className={`p-2 rounded ${
+                note.is_pinned
+                  ? 'bg-yellow-50 border border-yellow-200'
+                  : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-between items-start gap-2 mb-1 text-xs text-gray-500">
+                <span>
+                  <span className="font-medium text-gray-700">
+                    {getUserName(note.author)}
+                  </span>{' '}
+                  {note.created_at.toLocaleString()}
+                  {note.revisions.length > 0 && (
+                    <button
+                      onClick={() =>
+                        setHistoryId(historyId === note.id ? null : note.id)
+                      }
+                      className="ml-1 hover:underline"
+                      title="Show earlier versions"
+                    >
+                      (edited)
+                    </button>
+                  )}
+                </span>
+                <span className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() =>
+                      save(
+                        () => setPropertyNotePinned(note.id, !note.is_pinned),
+                        'Failed to pin note'
+                      )
+                    }
+                    disabled={isSaving}
+                    className="hover:text-gray-700"
+                  >
+                    {note.is_pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                  <button
+                    onClick={() => startEditing(note)}
+                    disabled={isSaving}
+                    className="hover:text-gray-700"
+                  >
+                    Edit
+                  </button>
+                </span>
+              </div>
+
+              {editingId === note.id ? (
+                <>
+                  <MentionTextarea
+                    value={editText}
+                    onChange={setEditText}
+                    onSubmit={handleEdit}
+                    teammates={teammates}
+                    disabled={isSaving}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={handleEdit}
+                      disabled={isSaving || !editText.trim()}
+                      className="px-2 py-1 text-sm rounded text-white bg-green-500 hover:bg-green-600 disabled:bg-gray-400"
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      disabled={isSaving}
+                      className="px-2 py-1 text-sm rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <NoteBody body={note.body} handles={handles} />
+              )}
+
+              {historyId === note.id && (
+                <ol className="mt-2 pl-2 border-l-2 space-y-1 text-xs text-gray-500">
+                  {note.revisions.map((revision) => (
+                    <li key={revision.id}>
+                      <div>
+                        Before the edit by {getUserName(revision.editor)} on{' '}
+                        {revision.created_at.toLocaleString()}:
+                      </div>
+                      <NoteBody body={revision.body} handles={handles} />
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 text-sm">No notes yet</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  GeneratedImage,
+  OutreachEmail,
+  Property,
+  UnstagedImage,
+} from '@prisma/client'
+import { sendOutreachEmail } from './actions'
+import { OutreachTemplateOption } from './types'
+import {
+  buildOutreachHtml,
+  findUnknownMergeFields,
+  getMergeValues,
+  pickVariant,
+  renderTemplate,
+} from '@/lib/outreach'
+import { getS3ImageUrl } from '@/lib/utils'
+
+export interface OutreachEmailWithSender extends OutreachEmail {
+  sender: { name: string | null; email: string } | null
+}
+
+interface OutreachPanelProps {
+  property: Property & {
+    unstaged_images: UnstagedImage[]
+    generated_images: GeneratedImage[]
+    agent: { email: string | null } | null
+    outreach_emails: OutreachEmailWithSender[]
+  }
+  templates: OutreachTemplateOption[]
+  senderName: string | null
+  // Reloads the property after an email is sent
+  onSent: () => Promise<void>
+}
+
+function toggleId(ids: number[], id: number) {
+  return ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+}
+
+/**
+ * Compose and send an email to the listing agent from a template, with
+ * before and after images of the property. One of a template's variants is
+ * picked at random for each email, and choosing the template again keeps
+ * that pick until the email is sent.
+ */
+export default function OutreachPanel({
+  property,
+  templates,
+  senderName,
+  onSent,
+}: OutreachPanelProps) {
+  const [templateId, setTemplateId] = useState<number | null>(null)
+  const [variant, setVariant] = useState<
+    OutreachTemplateOption['variants'][number] | null
+  >(null)
+  // The variant picked for each template, by template id
+  const [variantPicks, setVariantPicks] = useState<Record<number, number>>({})
+  const [to, setTo] = useState(property.agent?.email ?? '')
+  const [draft, setDraft] = useState({ subject: '', body: '' })
+  // Start with the first photo and its staged version
+  const [beforeIds, setBeforeIds] = useState(
+    property.unstaged_images.slice(0, 1).map((image) => image.id)
+  )
+  const [afterIds, setAfterIds] = useState(
+    property.generated_images.slice(0, 1).map((image) => image.id)
+  )
+  const [showPreview, setShowPreview] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const chooseTemplate = (id: number | null, isNewPick = false) => {
+    const template = templates.find((option) => option.id === id)
+    const picked = isNewPick
+      ? undefined
+      : template?.variants.find(
+          (option) => option.id === variantPicks[template.id]
+        )
+    const chosen = template ? (picked ?? pickVariant(template.variants)) : null
+    const mergeValues = getMergeValues(property, senderName)
+
+    setTemplateId(id)
+    setVariant(chosen)
+    if (template && chosen) {
+      setVariantPicks((picks) => ({ ...picks, [template.id]: chosen.id }))
+    }
+    if (chosen) {
+      setDraft({
+        subject: renderTemplate(chosen.version.subject, mergeValues),
+        body: renderTemplate(chosen.version.body, mergeValues),
+      })
+    }
+  }
+
+  const unknownFields = findUnknownMergeFields(
+    `${draft.subject}\n${draft.body}`
+  )
+
+  const handleSend = async () => {
+    setIsSending(true)
+    setErrorMessage(null)
+    try {
+      const { isRecorded } = await sendOutreachEmail({
+        propertyId: property.id,
+        templateVersionId: variant?.version.id ?? null,
+        to,
+        subject: draft.subject,
+        body: draft.body,
+        beforeImageIds: beforeIds,
+        afterImageIds: afterIds,
+      })
+      if (!isRecorded) {
+        setErrorMessage(
+          'The email was sent but could not be recorded. Do not send it again.'
+        )
+      }
+      await onSent()
+      // The next email gets its own variant
+      chooseTemplate(templateId, true)
+    } catch (error) {
+      console.error('Failed to send email:', error)
+      setErrorMessage('Failed to send email')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const previewHtml = buildOutreachHtml(draft.body, {
+    before: property.unstaged_images
+      .filter((image) => beforeIds.includes(image.id))
+      .map((image) => image.unstaged_images),
+    after: property.generated_images
+      .filter((image) => afterIds.includes(image.id))
+      .map((image) => getS3ImageUrl(image.image_url)),
+  })
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col">
+          <span className="font-medium">Template</span>
+          <select
+            value={templateId ?? ''}
+            onChange={(e) =>
+              chooseTemplate(e.target.value ? Number(e.target.value) : null)
+            }
+            className="mt-1 p-1 border rounded"
+          >
+            <option value="">Choose a template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          {variant && (
+            <span className="mt-1 text-xs text-gray-500">
+              Variant {variant.label}, version {variant.version.version}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col">
+          <span className="font-medium">To</span>
+          <input
+            type="email"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="agent@example.com"
+            className="mt-1 p-1 border rounded"
+          />
+        </label>
+      </div>
+      <label className="flex flex-col">
+        <span className="font-medium">Subject</span>
+        <input
+          value={draft.subject}
+          onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+          className="mt-1 p-1 border rounded"
+        />
+      </label>
+      <label className="flex flex-col">
+        <span className="font-medium">Message</span>
+        <textarea
+          value={draft.body}
+          onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+          className="mt-1 p-2 h-48 border rounded"
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="font-medium mb-1">Before</p>
+          {property.unstaged_images.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {property.unstaged_images.map((image) => (
+                <label key={image.id} className="relative cursor-pointer">
+                  <img
+                    src={image.unstaged_images}
+                    alt="Unstaged"
+                    className={`w-20 h-16 object-cover rounded border-2 ${
+                      beforeIds.includes(image.id)
+                        ? 'border-blue-500'
+                        : 'border-transparent'
+                    }`}
+                  />
+                  <input
+                    type="checkbox"
+                    checked={beforeIds.includes(image.id)}
+                    onChange={() => setBeforeIds(toggleId(beforeIds, image.id))}
+                    className="absolute top-1 left-1"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400">No unstaged images</p>
+          )}
+        </div>
+        <div>
+          <p className="font-medium mb-1">After</p>
+          {property.generated_images.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {property.generated_images.map((image) => (
+                <label key={image.id} className="relative cursor-pointer">
+                  <img
+                    src={getS3ImageUrl(image.image_url)}
+                    alt="Generated"
+                    className={`w-20 h-16 object-cover rounded border-2 ${
+                      afterIds.includes(image.id)
+                        ? 'border-blue-500'
+                        : 'border-transparent'
+                    }`}
+                  />
+                  <input
+                    type="checkbox"
+                    checked={afterIds.includes(image.id)}
+                    onChange={() => setAfterIds(toggleId(afterIds, image.id))}
+                    className="absolute top-1 left-1"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400">No generated images</p>
+          )}
+        </div>
+      </div>
+
+      {unknownFields.length > 0 && (
+        <p className="text-red-600">
+          Unknown merge fields:{' '}
+          {unknownFields.map((field) => `{{${field}}}`).join(', ')}
+        </p>
+      )}
+      {errorMessage && <p className="text-red-600">{errorMessage}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setShowPreview(!showPreview)}
+          className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+        >
+          {showPreview ? 'Hide preview' : 'Preview'}
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={
+            isSending ||
+            !to.trim() ||
+            !draft.subject.trim() ||
+            !draft.body.trim() ||
+            unknownFields.length > 0
+          }
+          className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400"
+        >
+          {isSending ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+
+      {showPreview && (
+        <iframe
+          title="Email preview"
+          srcDoc={previewHtml}
+          sandbox=""
+          className="w-full h-96 border rounded bg-white"
+        />
+      )}
+
+      <div>
+        <p className="font-medium mb-1">Sent</p>
+        {property.outreach_emails.length > 0 ? (
+          <ul className="space-y-1 text-xs text-gray-600">
+            {property.outreach_emails.map((email) => (
+              <li key={email.id}>
+                <span className="font-medium text-gray-800">
+                  {email.subject}
+                </span>{' '}
+                to {email.to_email}
+                <span className="text-gray-400">
+                  {' '}
+                  {email.sent_at.toLocaleString()}
+                  {email.sender &&
+                    ` by ${email.sender.name || email.sender.email}`}
+                  {email.transport !== 'resend' && ` (${email.transport})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-400">No emails sent yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { getPriceDrop } from '@/lib/utils'
+
+interface PriceDropBadgeProps {
+  price: number | null
+  previous_price: number | null
+}
+
+/**
+ * Marks leads whose price dropped at the last import that changed it
+ */
+export default function PriceDropBadge(property: PriceDropBadgeProps) {
+  const drop = getPriceDrop(property)
+  if (!drop) return null
+
+  return (
+    <span
+      className="ml-1 px-1.5 py-0.5 rounded-full text-xs whitespace-nowrap bg-green-100 text-green-800"
+      title={`Price dropped from $${property.previous_price?.toLocaleString()}`}
+    >
+      ↓ ${drop.toLocaleString()}
+    </span>
+  )
+}
@@ -0,0 +1,114 @@
+import { PropertySnapshot } from '@prisma/client'
+
+interface PropertyHistoryProps {
+  snapshots: PropertySnapshot[]
+}
+
+interface HistoryEntry {
+  id: number
+  date: Date
+  changes: string[]
+  priceDrop: boolean
+}
+
+const formatPrice = (price: number | null) =>
+  price === null ? 'no price' : `$${price.toLocaleString()}`
+
+/**
+ * Describe what changed between consecutive snapshots, newest first
+ */
+function buildHistory(snapshots: PropertySnapshot[]): HistoryEntry[] {
+  const ordered = [...snapshots].sort(
+    (a, b) => a.created_at.getTime() - b.created_at.getTime()
+  )
+
+  return ordered
+    .map((snapshot, i) => {
+      const previous = ordered[i - 1]
+      if (!previous) {
+        return {
+          id: snapshot.id,
+          date: snapshot.created_at,
+          changes: [
+            `First imported at ${formatPrice(snapshot.price)}${
+              snapshot.listing_status ? `, ${snapshot.listing_status}` : ''
+            }`,
+          ],
+          priceDrop: false,
+        }
+      }
+
+      const changes: string[] = []
+      if (snapshot.price !== previous.price) {
+        const percent =
+          previous.price && snapshot.price !== null
+            ? ` (${(((snapshot.price - previous.price) / previous.price) * 100).toFixed(1)}%)`
+            : ''
+        changes.push(
+          `Price ${formatPrice(previous.price)} → ${formatPrice(snapshot.price)}${percent}`
+        )
+      }
+      if (snapshot.listing_status !== previous.listing_status) {
+        changes.push(
+          `Status ${previous.listing_status ?? 'none'} → ${
+            snapshot.listing_status ?? 'none'
+          }`
+        )
+      }
+      if (snapshot.days_on_zillow !== previous.days_on_zillow) {
+        changes.push(`Days on Zillow: ${snapshot.days_on_zillow ?? 'unknown'}`)
+      }
+
+      return {
+        id: snapshot.id,
+        date: snapshot.created_at,
+        changes,
+        priceDrop:
+          previous.price !== null &&
+          snapshot.price !== null &&
+          snapshot.price < previous.price,
+      }
+    })
+    .filter((entry) => entry.changes.length > 0)
+    .reverse()
+}
+
+export default function PropertyHistory({ snapshots }: PropertyHistoryProps) {
+  const history = buildHistory(snapshots)
+
+  return (
+    <div className="mt-4 pt-4 border-t">
+      <h3 className="text-lg font-medium mb-2">Price &amp; Status History</h3>
+      {history.length > 0 ? (
+        <ol className="border-l-2 border-gray-200 ml-2 space-y-3">
+          {history.map((entry) => (
+            <li key={entry.id} className="relative pl-4">
+              <span
+                className={`absolute -left-[7px] top-1.5 h-3 w-3 rounded-full ${
+                  entry.priceDrop ? 'bg-green-500' : 'bg-gray-300'
+                }`}
+              />
+              <p className="text-xs text-gray-500">
+                {entry.date.toLocaleDateString()}
+              </p>
+              {entry.changes.map((change) => (
+                <p
+                  key={change}
+                  className={`text-sm ${
+                    entry.priceDrop && change.startsWith('Price')
+                      ? 'text-green-700 font-medium'
+                      : ''
+                  }`}
+                >
+                  {change}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-gray-400 text-sm">No history recorded yet</p>
+      )}
+    </div>
+  )
+}
@@ -1,78 +1,184 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
+import Link from 'next/link'
 import {
   Property,
   OtherImage,
   UnstagedImage,
   GeneratedImage,
+  PropertySnapshot,
 } from '@prisma/client'
 import {
+  countBulkTarget,
+  getLeadsByStage,
   getPropertyById,
-  toggleContactedAgent,
-  updatePropertyNotes,
+  setPropertyStage,
   deleteProperty,
+  restoreProperties,
   searchProperties,
 } from './actions'
+import ActivityTimeline, { ActivityWithUser } from './ActivityTimeline'
+import AgentContactNotice, { AgentWithContact } from './AgentContactNotice'
+import BulkActionBar, { BulkAction } from './BulkActionBar'
+import Highlight from './Highlight'
 import ImageUploader from './ImageUploader'
-import { getS3ImageUrl } from '@/lib/utils'
+import LeadFilters from './LeadFilters'
+import LeadLists from './LeadLists'
+import NotesThread, { PropertyNoteWithHistory } from './NotesThread'
+import OutreachPanel, { OutreachEmailWithSender } from './OutreachPanel'
+import SavedSearches from './SavedSearches'
+import SearchSuggestionList from './SearchSuggestionList'
+import TriageCheatSheet from './TriageCheatSheet'
+import UndoToast from './UndoToast'
+import PropertyHistory from './PropertyHistory'
+import StageHistory, { StageTransitionWithUser } from './StageHistory'
+import {
+  BulkTarget,
+  FilterOptions,
+  LeadPage,
+  LeadProperty,
+  OutreachTemplateOption,
+  SavedSearchSummary,
+  StageCounts,
+} from './types'
+import {
+  LEAD_STAGES,
+  LEAD_STAGE_IDS,
+  LeadStage,
+  getLeadStage,
+  isLeadStage,
+} from '@/lib/lead-stages'
+import { Teammate } from '@/lib/mentions'
+import { PropertyFilters } from '@/lib/property-filters'
+import { PropertySearchResult } from '@/lib/property-search'
+import {
+  SearchSuggestion,
+  applySearchSuggestion,
+  getSearchSuggestions,
+} from '@/lib/search-query'
+import { getPriceDrop, getS3ImageUrl, parseId } from '@/lib/utils'
 import ConfirmationDialog from '@/components/ConfirmationDialog'
 
 interface PropertyWithRelations extends Property {
   unstaged_images: UnstagedImage[]
   other_images: OtherImage[]
   generated_images: GeneratedImage[]
+  snapshots: PropertySnapshot[]
+  stage_transitions: StageTransitionWithUser[]
+  notes: PropertyNoteWithHistory[]
+  agent: AgentWithContact | null
+  outreach_emails: OutreachEmailWithSender[]
+  activities: ActivityWithUser[]
 }
 
-interface LeadProperty {
-  id: number
-  street_address: string | null
-  state: string | null
-  created_at: Date
+const WORKBENCH_PATH = '/property-workbench'
+
+/**
+ * Property id from a workbench URL such as /property-workbench/42
+ */
+function getPropertyIdFromPath(pathname: string) {
+  const match = pathname.match(/^\/property-workbench\/(\d+)\/?$/)
+  return match ? parseId(match[1]) : null
 }
 
-interface SearchResultProperty {
-  id: number
-  street_address: string | null
-  state: string | null
-  display_name: string | null
-  phone_number: string | null
-  created_at: Date
-  updated_at: Date
-  contacted_agent: boolean | null
+// Checkboxes are ticked in either the lead list or the search results
+type SelectionSource = 'leads' | 'search'
+
+interface Selection {
+  source: SelectionSource
+  ids: number[]
+  // Everything matching the list, not just the loaded rows
+  isAllMatching: boolean
+}
+
+const EMPTY_SELECTION: Selection = {
+  source: 'leads',
+  ids: [],
+  isAllMatching: false,
 }
 
 interface PropertyWorkbenchClientProps {
   initialProperty: PropertyWithRelations | null
-  newLeads: LeadProperty[]
-  recentlyContactedProperties: LeadProperty[]
+  missingPropertyId?: string
+  leadPage: LeadPage
+  stageCounts: StageCounts
+  activeStage: LeadStage
+  filters: PropertyFilters
+  filterOptions: FilterOptions
+  savedSearches: SavedSearchSummary[]
+  searchQuery: string
+  teammates: Teammate[]
+  outreachTemplates: OutreachTemplateOption[]
+  senderName: string | null
 }
 
 export default function PropertyWorkbenchClient({
   initialProperty,
-  newLeads: initialLeads,
-  recentlyContactedProperties: initialContactedProperties,
+  leadPage,
+  stageCounts: initialStageCounts,
+  activeStage,
+  filters,
+  filterOptions,
+  missingPropertyId,
+  savedSearches,
+  searchQuery,
+  teammates,
+  outreachTemplates,
+  senderName,
 }: PropertyWorkbenchClientProps) {
   const [selectedProperty, setSelectedProperty] =
     useState<PropertyWithRelations | null>(initialProperty)
+  const [missingId, setMissingId] = useState(missingPropertyId)
   const [isLoading, setIsLoading] = useState(false)
-  const [isToggling, setIsToggling] = useState(false)
-  const [newLeads, setNewLeads] = useState<LeadProperty[]>(initialLeads)
-  const [recentlyContactedProperties, setRecentlyContactedProperties] =
-    useState<LeadProperty[]>(initialContactedProperties)
-  const [isEditingNotes, setIsEditingNotes] = useState(false)
-  const [notes, setNotes] = useState<string>('')
-  const [isSavingNotes, setIsSavingNotes] = useState(false)
+  const [isChangingStage, setIsChangingStage] = useState(false)
+  const [leads, setLeads] = useState<LeadProperty[]>(leadPage.leads)
+  const [nextCursor, setNextCursor] = useState(leadPage.nextCursor)
+  const [stageCounts, setStageCounts] =
+    useState<StageCounts>(initialStageCounts)
+  const [isLoadingMoreLeads, setIsLoadingMoreLeads] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  // Properties just moved to the trash, offered for undo
+  const [undoDelete, setUndoDelete] = useState<{
+    message: string
+    ids: number[]
+  } | null>(null)
+  const [isTriageMode, setIsTriageMode] = useState(false)
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false)
 
   // Search related state
-  const [searchTerm, setSearchTerm] = useState('')
-  const [searchResults, setSearchResults] = useState<SearchResultProperty[]>([])
+  const [searchTerm, setSearchTerm] = useState(searchQuery)
+  const [searchResults, setSearchResults] = useState<PropertySearchResult[]>([])
+  const [searchTerms, setSearchTerms] = useState<string[]>([])
   const [isSearching, setIsSearching] = useState(false)
-  const [hasMoreResults, setHasMoreResults] = useState(false)
-  const [idOnlySearch, setIdOnlySearch] = useState(false)
+  const [nextSearchOffset, setNextSearchOffset] = useState<number | null>(null)
+  const [isLoadingMoreResults, setIsLoadingMoreResults] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [activeSuggestion, setActiveSuggestion] = useState(-1)
+  // Query of the results being shown, which may differ from the search box
+  const [activeSearchQuery, setActiveSearchQuery] = useState('')
+
+  // Bulk selection state
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION)
+  const [matchingCount, setMatchingCount] = useState<number | null>(null)
+  const lastCheckedRef = useRef<{
+    source: SelectionSource
+    index: number
+  } | null>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
+  const noteComposerRef = useRef<HTMLTextAreaElement>(null)
+
+  // Start again from the first page whenever the stage or filters change
+  useEffect(() => {
+    setLeads(leadPage.leads)
+    setNextCursor(leadPage.nextCursor)
+    setStageCounts(initialStageCounts)
+    setSelection((current) =>
+      current.source === 'leads' ? EMPTY_SELECTION : current
+    )
+  }, [leadPage, initialStageCounts])
 
   const renderValue = (value: string | number | boolean | null | undefined) => {
     if (value === null || value === undefined) {
@@ -84,51 +190,54 @@ export default function PropertyWorkbenchClient({
     return value
   }
 
-  // Function to fetch a property by id using server action
-  const fetchProperty = async (id: number) => {
+  // Function to load a property by id using server action
+  const loadProperty = useCallback(async (id: number) => {
     setIsLoading(true)
     try {
       const property = await getPropertyById(id)
       setSelectedProperty(property)
-      setNotes(property?.notes || '')
+      setMissingId(property ? undefined : String(id))
     } catch (error) {
       console.error('Error fetching property:', error)
     } finally {
       setIsLoading(false)
     }
-  }
+  }, [])
 
-  // Function to handle notes editing
-  const handleEditNotes = () => {
-    setIsEditingNotes(true)
+  // Function to select a property, giving it its own URL in the history
+  const fetchProperty = async (id: number) => {
+    if (selectedProperty?.id !== id) {
+      window.history.pushState(
+        null,
+        '',
+        `${WORKBENCH_PATH}/${id}${window.location.search}`
+      )
+    }
+    await loadProperty(id)
   }
 
-  // Function to save notes
-  const handleSaveNotes = async () => {
-    if (!selectedProperty) return
-
-    setIsSavingNotes(true)
-    try {
-      await updatePropertyNotes(selectedProperty.id, notes)
-
-      // Update local state
-      const updatedProperty = {
-        ...selectedProperty,
-        notes,
+  // Back and forward move between previously viewed properties
+  useEffect(() => {
+    const handlePopState = () => {
+      const id = getPropertyIdFromPath(window.location.pathname)
+      if (id === null) {
+        setSelectedProperty(null)
+        setMissingId(undefined)
+      } else {
+        loadProperty(id)
       }
-      setSelectedProperty(updatedProperty)
-      setIsEditingNotes(false)
-    } catch (error) {
-      console.error('Error saving notes:', error)
-    } finally {
-      setIsSavingNotes(false)
     }
-  }
 
-  // Function to cancel notes editing
-  const handleCancelEdit = () => {
-    setNotes(selectedProperty?.notes || '')
-    setIsEditingNotes(false)
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [loadProperty])
+
+  // Function to reload the selected property after its notes change
+  const refreshNotes = async () => {
+    if (!selectedProperty) return
+
+    const property = await getPropertyById(selectedProperty.id)
+    if (property) setSelectedProperty(property)
   }
 
   // Function to refresh property data after image upload
@@ -138,55 +247,96 @@ export default function PropertyWorkbenchClient({
     }
   }
 
-  // Function to toggle contacted_agent status
-  const handleToggleContact = async () => {
-    if (!selectedProperty || isToggling) return
+  // Move a lead that changed stage out of the list, or to its top if it
+  // moved into the stage being shown
+  const moveLead = (property: PropertyWithRelations, previousStage: string) => {
+    const stage = property.stage
+    const lead: LeadProperty = {
+      id: property.id,
+      street_address: property.street_address,
+      state: property.state,
+      price: property.price,
+      previous_price: property.previous_price,
+      stage,
+      stage_changed_at: property.stage_changed_at,
+      created_at: property.created_at,
+    }
+    setLeads((current) => {
+      const others = current.filter((item) => item.id !== lead.id)
+      return stage === activeStage ? [lead, ...others] : others
+    })
+    setStageCounts((current) => ({
+      ...current,
+      ...(isLeadStage(previousStage) && {
+        [previousStage]: current[previousStage] - 1,
+      }),
+      ...(isLeadStage(stage) && { [stage]: current[stage] + 1 }),
+    }))
+  }
+
+  // Reload the property after emailing its agent, which can move the lead
+  // to contacted
+  const handleOutreachSent = async () => {
+    if (!selectedProperty) return
+
+    const property = await getPropertyById(selectedProperty.id)
+    if (!property) return
+    setSelectedProperty(property)
+    if (property.stage !== selectedProperty.stage) {
+      moveLead(property, selectedProperty.stage)
+    }
+  }
+
+  // Function to move the selected property to another pipeline stage
+  const handleStageChange = async (stage: LeadStage) => {
+    if (!selectedProperty || isChangingStage) return false
+    if (selectedProperty.stage === stage) return false
 
-    setIsToggling(true)
+    setIsChangingStage(true)
     try {
-      await toggleContactedAgent(selectedProperty.id)
+      await setPropertyStage(selectedProperty.id, stage)
 
-      // Update local state
-      const updatedProperty = {
-        ...selectedProperty,
-        contacted_agent: !selectedProperty.contacted_agent,
-      }
-      setSelectedProperty(updatedProperty)
-
-      // Create a property entry for the lists
-      const propertyForList = {
-        id: selectedProperty.id,
-        street_address: selectedProperty.street_address,
-        state: selectedProperty.state,
-        created_at: selectedProperty.created_at,
-      }
+      // Reload to pick up the recorded transition
+      const property = await getPropertyById(selectedProperty.id)
+      if (!property) return false
+      setSelectedProperty(property)
+      moveLead(property, selectedProperty.stage)
+      return true
+    } catch (error) {
+      console.error('Error changing stage:', error)
+      return false
+    } finally {
+      setIsChangingStage(false)
+    }
+  }
 
-      // Update leads lists based on the new status
-      if (!selectedProperty.contacted_agent) {
-        // Property was NOT contacted, now it IS contacted
-        // Remove from newLeads and add to recentlyContactedProperties
-        setNewLeads(newLeads.filter((lead) => lead.id !== selectedProperty.id))
-        setRecentlyContactedProperties([
-          propertyForList,
-          ...recentlyContactedProperties,
-        ])
-      } else {
-        // Property WAS contacted, now it is NOT contacted
-        // Remove from recentlyContactedProperties and add to newLeads
-        setRecentlyContactedProperties(
-          recentlyContactedProperties.filter(
-            (property) => property.id !== selectedProperty.id
-          )
-        )
-        setNewLeads([propertyForList, ...newLeads])
-      }
+  // Function to load the next page of the lead list
+  const handleLoadMoreLeads = async () => {
+    if (nextCursor === null || isLoadingMoreLeads) return
+
+    setIsLoadingMoreLeads(true)
+    try {
+      const page = await getLeadsByStage(activeStage, filters, nextCursor)
+      setLeads((current) => {
+        const shown = new Set(current.map((lead) => lead.id))
+        return [...current, ...page.leads.filter((lead) => !shown.has(lead.id))]
+      })
+      setNextCursor(page.nextCursor)
     } catch (error) {
-      console.error('Error toggling contact status:', error)
+      console.error('Error loading more leads:', error)
     } finally {
-      setIsToggling(false)
+      setIsLoadingMoreLeads(false)
     }
   }
 
+  // Lead after the given one in the list, or before it at the end of the
+  // list. Looked up before an action takes the lead out of the list.
+  const getAdjacentLeadId = (id: number, step: 1 | -1 = 1) => {
+    const index = leads.findIndex((lead) => lead.id === id)
+    if (index === -1) return leads[0]?.id ?? null
+    return (leads[index + step] ?? leads[index - step])?.id ?? null
+  }
+
   // Function to handle property deletion
   const handleDeleteProperty = async () => {
     if (!selectedProperty || isDeleting) return
@@ -195,27 +345,39 @@ export default function PropertyWorkbenchClient({
     try {
       // Store property info for feedback
       const propertyAddress = selectedProperty.street_address || 'property'
+      const nextLeadId = getAdjacentLeadId(selectedProperty.id)
 
       await deleteProperty(selectedProperty.id)
 
       // After successful deletion, clear selected property and refresh leads
       setSelectedProperty(null)
+      window.history.replaceState(
+        null,
+        '',
+        `${WORKBENCH_PATH}${window.location.search}`
+      )
 
-      // Update both lists to remove the deleted property
-      if (selectedProperty.contacted_agent === false) {
-        setNewLeads(newLeads.filter((lead) => lead.id !== selectedProperty.id))
-      } else {
-        setRecentlyContactedProperties(
-          recentlyContactedProperties.filter(
-            (property) => property.id !== selectedProperty.id
-          )
-        )
+      // Remove the deleted property from the list and its stage count
+      setLeads((current) =>
+        current.filter((lead) => lead.id !== selectedProperty.id)
+      )
+      if (isLeadStage(selectedProperty.stage)) {
+        const stage = selectedProperty.stage
+        setStageCounts((current) => ({
+          ...current,
+          [stage]: current[stage] - 1,
+        }))
       }
 
-      // Show success notification (optional)
-      alert(
-        `Property '${propertyAddress}' and all related images have been deleted.`
-      )
+      setUndoDelete({
+        message: `'${propertyAddress}' moved to the Trash`,
+        ids: [selectedProperty.id],
+      })
+
+      // Triage moves straight on to the next lead
+      if (isTriageMode && nextLeadId !== null) {
+        fetchProperty(nextLeadId)
+      }
     } catch (error) {
       console.error('Error deleting property:', error)
       alert('Failed to delete the property. Please try again.')
@@ -225,6 +387,29 @@ export default function PropertyWorkbenchClient({
     }
   }
 
+  const dismissUndoDelete = useCallback(() => setUndoDelete(null), [])
+
+  // Function to take the last deletion back out of the trash
+  const handleUndoDelete = async () => {
+    if (!undoDelete) return
+
+    try {
+      await restoreProperties(undoDelete.ids)
+      setUndoDelete(null)
+
+      if (activeSearchQuery) {
+        runSearch(activeSearchQuery)
+      }
+      // Bring a single restored property back into view
+      if (undoDelete.ids.length === 1) {
+        fetchProperty(undoDelete.ids[0])
+      }
+    } catch (error) {
+      console.error('Error restoring properties:', error)
+      alert('Failed to restore. The properties are still in the Trash.')
+    }
+  }
+
   // Function to open delete confirmation dialog
   const openDeleteDialog = () => {
     setIsDeleteDialogOpen(true)
@@ -233,11 +418,44 @@ export default function PropertyWorkbenchClient({
   // Function to handle search input changes
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(e.target.value)
+    setSearchError(null)
+    setSuggestions(getSearchSuggestions(e.target.value))
+    setActiveSuggestion(-1)
 
     // Clear results if the search term is empty
     if (!e.target.value.trim()) {
       setSearchResults([])
-      setHasMoreResults(false)
+      setNextSearchOffset(null)
+    }
+  }
+
+  // Function to complete the word being typed with a suggestion
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    const next = applySearchSuggestion(searchTerm, suggestion)
+    setSearchTerm(next)
+    // Field names go straight on to suggesting their values
+    setSuggestions(getSearchSuggestions(next))
+    setActiveSuggestion(-1)
+  }
+
+  // Arrow keys move through the suggestions, Tab or Enter picks one
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveSuggestion(
+        (current) => (current + step + suggestions.length) % suggestions.length
+      )
+    } else if (
+      e.key === 'Tab' ||
+      (e.key === 'Enter' && activeSuggestion >= 0)
+    ) {
+      e.preventDefault()
+      handleSuggestionSelect(suggestions[Math.max(activeSuggestion, 0)])
+    } else if (e.key === 'Escape') {
+      setSuggestions([])
     }
   }
 
@@ -245,57 +463,314 @@ export default function PropertyWorkbenchClient({
   const clearSearch = () => {
     setSearchTerm('')
     setSearchResults([])
-    setHasMoreResults(false)
+    setNextSearchOffset(null)
+    setSearchError(null)
+    setSuggestions([])
     if (searchInputRef.current) {
       searchInputRef.current.focus()
     }
   }
 
+  // Function to run a search within the active lead filters
+  const runSearch = useCallback(
+    async (query: string) => {
+      setSuggestions([])
+
+      if (!query.trim()) {
+        setSearchResults([])
+        setNextSearchOffset(null)
+        return
+      }
+
+      setIsSearching(true)
+
+      try {
+        const page = await searchProperties(query, filters)
+        setActiveSearchQuery(query)
+        setSelection((current) =>
+          current.source === 'search' ? EMPTY_SELECTION : current
+        )
+        setSearchResults(page.results)
+        setSearchTerms(page.terms)
+        setNextSearchOffset(page.nextOffset)
+        setSearchError(page.error ?? null)
+      } catch (error) {
+        console.error('Error searching properties:', error)
+      } finally {
+        setIsSearching(false)
+      }
+    },
+    [filters]
+  )
+
   // Function to handle search
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
+    await runSearch(searchTerm)
+  }
 
-    if (!searchTerm.trim()) {
-      setSearchResults([])
-      setHasMoreResults(false)
-      return
-    }
+  // Opening a saved search puts its query in the URL. Only run it when the
+  // query or filters actually change, so typing isn't overwritten when the
+  // page refreshes after an edit.
+  const loadedSearchRef = useRef('')
+  useEffect(() => {
+    const key = JSON.stringify([searchQuery, filters])
+    if (!searchQuery || loadedSearchRef.current === key) return
 
-    setIsSearching(true)
+    loadedSearchRef.current = key
+    setSearchTerm(searchQuery)
+    runSearch(searchQuery)
+  }, [searchQuery, filters, runSearch])
 
+  // Function to load the next page of search results
+  const handleLoadMoreResults = async () => {
+    if (nextSearchOffset === null) return
+
+    setIsLoadingMoreResults(true)
     try {
-      const results = await searchProperties(searchTerm, idOnlySearch)
+      const page = await searchProperties(
+        activeSearchQuery,
+        filters,
+        nextSearchOffset
+      )
+      setSearchResults((current) => {
+        const shown = new Set(current.map((property) => property.id))
+        return [
+          ...current,
+          ...page.results.filter((property) => !shown.has(property.id)),
+        ]
+      })
+      setNextSearchOffset(page.nextOffset)
+    } catch (error) {
+      console.error('Error loading more search results:', error)
+    } finally {
+      setIsLoadingMoreResults(false)
+    }
+  }
 
-      // Check if we have more results than we can display
-      if (results.length > 30) {
-        setHasMoreResults(true)
-        setSearchResults(results.slice(0, 30))
-      } else {
-        setHasMoreResults(false)
-        setSearchResults(results)
+  const getSelectionRows = (source: SelectionSource) =>
+    source === 'leads' ? leads : searchResults
+
+  // Function to tick a row, or with shift the range since the last tick
+  const handleToggleChecked = (
+    source: SelectionSource,
+    id: number,
+    index: number,
+    shiftKey: boolean
+  ) => {
+    const rows = getSelectionRows(source)
+    const last = lastCheckedRef.current
+    const [start, end] =
+      shiftKey && last?.source === source
+        ? [Math.min(last.index, index), Math.max(last.index, index)]
+        : [index, index]
+
+    setSelection((current) => {
+      const ids = new Set(current.source === source ? current.ids : [])
+      const checked = !ids.has(id)
+      for (const row of rows.slice(start, end + 1)) {
+        if (checked) {
+          ids.add(row.id)
+        } else {
+          ids.delete(row.id)
+        }
+      }
+      return { source, ids: Array.from(ids), isAllMatching: false }
+    })
+    lastCheckedRef.current = { source, index }
+  }
+
+  // Function to tick or untick every loaded row
+  const handleToggleAllChecked = (source: SelectionSource) => {
+    const rows = getSelectionRows(source)
+    setSelection((current) => {
+      const ids = current.source === source ? current.ids : []
+      const allChecked = rows.every((row) => ids.includes(row.id))
+      return {
+        source,
+        ids: allChecked ? [] : rows.map((row) => row.id),
+        isAllMatching: false,
       }
+    })
+  }
+
+  const getMatchingTarget = (source: SelectionSource): BulkTarget =>
+    source === 'leads'
+      ? { type: 'stage', stage: activeStage, filters }
+      : { type: 'search', query: activeSearchQuery, filters }
+
+  const bulkTarget: BulkTarget = selection.isAllMatching
+    ? getMatchingTarget(selection.source)
+    : { type: 'ids', ids: selection.ids }
+
+  const selectionRows = getSelectionRows(selection.source)
+  const canSelectAllMatching =
+    selectionRows.length > 0 &&
+    selectionRows.every((row) => selection.ids.includes(row.id)) &&
+    (selection.source === 'leads'
+      ? nextCursor !== null
+      : nextSearchOffset !== null)
+
+  // Function to extend the selection to everything matching the list
+  const handleSelectAllMatching = async () => {
+    setSelection((current) => ({ ...current, isAllMatching: true }))
+    setMatchingCount(null)
+    try {
+      setMatchingCount(
+        await countBulkTarget(getMatchingTarget(selection.source))
+      )
     } catch (error) {
-      console.error('Error searching properties:', error)
-    } finally {
-      setIsSearching(false)
+      console.error('Error counting properties:', error)
     }
   }
 
-  // Function to toggle ID-only search
-  const toggleIdOnlySearch = () => {
-    setIdOnlySearch(!idOnlySearch)
-    // Clear results when changing search mode
-    setSearchResults([])
-    setHasMoreResults(false)
-    // Focus the search input after toggling
-    if (searchInputRef.current) {
-      searchInputRef.current.focus()
+  // Function to refresh what the page shows after a bulk action. The lead
+  // list is refreshed by the server once the action revalidates the page.
+  const handleBulkComplete = (action: BulkAction, deletedIds?: number[]) => {
+    if (action === 'export') return
+
+    if (deletedIds && deletedIds.length > 0) {
+      setUndoDelete({
+        message: `${deletedIds.length.toLocaleString()} ${
+          deletedIds.length === 1 ? 'property' : 'properties'
+        } moved to the Trash`,
+        ids: deletedIds,
+      })
+    }
+    setSelection(EMPTY_SELECTION)
+    if (activeSearchQuery) {
+      runSearch(activeSearchQuery)
+    }
+    if (selectedProperty) {
+      loadProperty(selectedProperty.id)
+    }
+  }
+
+  // Function to step through the lead list with j/k
+  const selectAdjacentLead = (step: 1 | -1) => {
+    const index = leads.findIndex((lead) => lead.id === selectedProperty?.id)
+    const lead = index === -1 ? leads[0] : leads[index + step]
+    if (lead) {
+      fetchProperty(lead.id)
+    } else if (step === 1 && nextCursor !== null) {
+      handleLoadMoreLeads()
+    }
+  }
+
+  // Function to mark the lead contacted and move on to the next one
+  const handleTriageContacted = async () => {
+    if (!selectedProperty) return
+
+    const nextLeadId = getAdjacentLeadId(selectedProperty.id)
+    const isContacted =
+      selectedProperty.stage === 'contacted' ||
+      (await handleStageChange('contacted'))
+    if (isContacted && nextLeadId !== null) {
+      fetchProperty(nextLeadId)
+    }
+  }
+
+  // Triage shortcuts, ignored while typing or with a dialog open
+  const handleTriageKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement
+    const isTyping =
+      target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+
+    if (isTyping && e.key === 'Escape') {
+      target.blur()
+      return
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey || isDeleteDialogOpen || isTyping) {
+      return
+    }
+
+    switch (e.key) {
+      case 'j':
+        selectAdjacentLead(1)
+        break
+      case 'k':
+        selectAdjacentLead(-1)
+        break
+      case 'c':
+        handleTriageContacted()
+        break
+      case 'n':
+        noteComposerRef.current?.focus()
+        break
+      case 'u':
+        document.getElementById('paste-area')?.focus()
+        break
+      case 'd':
+        if (selectedProperty) openDeleteDialog()
+        break
+      case '/':
+        searchInputRef.current?.focus()
+        break
+      case '?':
+        setIsCheatSheetOpen((current) => !current)
+        break
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  // Re-subscribed every render so the handler sees the current lead
+  useEffect(() => {
+    if (!isTriageMode) return
+
+    window.addEventListener('keydown', handleTriageKeyDown)
+    return () => window.removeEventListener('keydown', handleTriageKeyDown)
+  })
+
+  // Function to switch triage mode on or off
+  const toggleTriageMode = () => {
+    setIsTriageMode(!isTriageMode)
+    setIsCheatSheetOpen(!isTriageMode)
+    // Start from the top of the list
+    if (!isTriageMode && !selectedProperty && leads.length > 0) {
+      fetchProperty(leads[0].id)
     }
   }
 
   return (
     <div className="container mx-auto p-4">
-      <h1 className="text-4xl font-bold mb-6">PROPERTY WORKBENCH</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-4xl font-bold">PROPERTY WORKBENCH</h1>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={toggleTriageMode}
+            className={`px-3 py-1 rounded text-sm ${
+              isTriageMode
+                ? 'text-white bg-blue-500 hover:bg-blue-600'
+                : 'text-gray-700 bg-gray-200 hover:bg-gray-300'
+            }`}
+            title="Work through leads with the keyboard"
+          >
+            {isTriageMode ? 'Exit triage mode' : 'Triage mode'}
+          </button>
+          <Link href="/property-workbench/board" className="hover:underline">
+            Pipeline Board
+          </Link>
+          <Link href="/activity" className="hover:underline">
+            Activity
+          </Link>
+          <Link
+            href="/property-workbench/templates"
+            className="hover:underline"
+          >
+            Templates
+          </Link>
+          <Link href="/property-workbench/trash" className="hover:underline">
+            Trash
+          </Link>
+        </div>
+      </div>
+
+      {isTriageMode && isCheatSheetOpen && (
+        <TriageCheatSheet onClose={() => setIsCheatSheetOpen(false)} />
+      )}
 
       <div className="flex flex-col md:flex-row gap-6 text-gray-800">
         {/* Left Column */}
@@ -339,6 +814,14 @@ export default function PropertyWorkbenchClient({
                         <span className="text-gray-400">No Info</span>
                       )}
                     </p>
+                    {getPriceDrop(selectedProperty) && (
+                      <p className="text-sm text-green-700">
+                        Dropped from $
+                        {selectedProperty.previous_price?.toLocaleString()}
+                        {selectedProperty.price_changed_at &&
+                          ` on ${selectedProperty.price_changed_at.toLocaleDateString()}`}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <p className="font-medium">Days on Zillow (When scraped)</p>
@@ -365,31 +848,65 @@ export default function PropertyWorkbenchClient({
                     <p>{renderValue(selectedProperty.id)}</p>
                   </div>
                   <div>
-                    <p className="font-medium">Agent Contacted</p>
+                    <p className="font-medium">Tags</p>
+                    {selectedProperty.tags.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {selectedProperty.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-gray-400">No Info</span>
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-medium">Stage</p>
                     <p className="text-3xl">
-                      {selectedProperty.contacted_agent ? 'Yes' : 'No'}
+                      {getLeadStage(selectedProperty.stage).label}
                     </p>
+                    {selectedProperty.stage_changed_at && (
+                      <p className="text-xs text-gray-500">
+                        Since{' '}
+                        {selectedProperty.stage_changed_at.toLocaleString()}
+                      </p>
+                    )}
+                    <StageHistory
+                      transitions={selectedProperty.stage_transitions}
+                    />
                   </div>
                   <div>
-                    <button
-                      onClick={handleToggleContact}
-                      disabled={isToggling}
-                      className={`px-3 py-1 rounded text-white ${
-                        isToggling
-                          ? 'bg-gray-400 cursor-not-allowed'
-                          : selectedProperty.contacted_agent
-                          ? 'bg-yellow-500 hover:bg-yellow-600'
-                          : 'bg-blue-500 hover:bg-blue-600'
-                      }`}
+                    <label
+                      htmlFor="property-stage"
+                      className="font-medium block"
                     >
-                      {isToggling
-                        ? 'Updating...'
-                        : selectedProperty.contacted_agent
-                        ? 'Mark as Not Contacted'
-                        : 'Mark as Contacted'}
-                    </button>
+                      Move to stage
+                    </label>
+                    <select
+                      id="property-stage"
+                      value={selectedProperty.stage}
+                      onChange={(e) =>
+                        handleStageChange(e.target.value as LeadStage)
+                      }
+                      disabled={isChangingStage}
+                      className="mt-1 p-1 border rounded focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      {LEAD_STAGE_IDS.map((stage) => (
+                        <option key={stage} value={stage}>
+                          {LEAD_STAGES[stage].label}
+                        </option>
+                      ))}
+                    </select>
+                    {isChangingStage && (
+                      <p className="text-xs text-gray-500 mt-1">Updating...</p>
+                    )}
                   </div>
                 </div>
+                <PropertyHistory snapshots={selectedProperty.snapshots} />
               </div>
 
               {/* Agent Info Section */}
@@ -397,6 +914,12 @@ export default function PropertyWorkbenchClient({
                 <h2 className="text-2xl font-semibold mb-4 border-b pb-2">
                   AGENT INFO
                 </h2>
+                {selectedProperty.agent && (
+                  <AgentContactNotice
+                    agent={selectedProperty.agent}
+                    stage={selectedProperty.stage}
+                  />
+                )}
                 <div className="flex flex-wrap">
                   {/* Left column - Agent details */}
                   <div className="w-1/2">
@@ -416,6 +939,22 @@ export default function PropertyWorkbenchClient({
                         <p className="text-3xl">
                           {renderValue(selectedProperty.phone_number)}
                         </p>
+                        {selectedProperty.phone_e164 && (
+                          <p className="flex gap-3 text-sm">
+                            <a
+                              href={`tel:${selectedProperty.phone_e164}`}
+                              className="text-blue-500 hover:underline"
+                            >
+                              Call
+                            </a>
+                            <a
+                              href={`sms:${selectedProperty.phone_e164}`}
+                              className="text-blue-500 hover:underline"
+                            >
+                              Text
+                            </a>
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="font-medium">Agent Type</p>
@@ -464,65 +1003,32 @@ export default function PropertyWorkbenchClient({
                       )}
                     </div>
 
-                    {/* Notes Section directly below photo */}
-                    <div className="pt-2">
-                      <div className="flex justify-between items-center mb-2">
-                        <h3 className="text-lg font-medium">Notes</h3>
-                        {isEditingNotes ? (
-                          <div className="space-x-2">
-                            <button
-                              onClick={handleSaveNotes}
-                              disabled={isSavingNotes}
-                              className={`px-2 py-1 text-sm rounded text-white ${
-                                isSavingNotes
-                                  ? 'bg-gray-400 cursor-not-allowed'
-                                  : 'bg-green-500 hover:bg-green-600'
-                              }`}
-                            >
-                              {isSavingNotes ? 'Saving...' : 'Save'}
-                            </button>
-                            <button
-                              onClick={handleCancelEdit}
-                              disabled={isSavingNotes}
-                              className="px-2 py-1 text-sm rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
-                            >
-                              Cancel
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={handleEditNotes}
-                            className="px-2 py-1 text-sm rounded text-white bg-blue-500 hover:bg-blue-600"
-                          >
-                            Edit
-                          </button>
-                        )}
-                      </div>
-
-                      {isEditingNotes ? (
-                        <textarea
-                          value={notes}
-                          onChange={(e) => setNotes(e.target.value)}
-                          className="w-full h-24 p-2 border rounded focus:ring-2 focus:ring-blue-500 focus:outline-none text-sm"
-                          placeholder="Add notes about this property..."
-                          disabled={isSavingNotes}
-                        />
-                      ) : (
-                        <div className="p-2 bg-gray-50 rounded min-h-[6rem] text-sm">
-                          {selectedProperty.notes ? (
-                            <p className="whitespace-pre-wrap">
-                              {selectedProperty.notes}
-                            </p>
-                          ) : (
-                            <p className="text-gray-400">No notes available</p>
-                          )}
-                        </div>
-                      )}
-                    </div>
+                    {/* Notes thread directly below photo */}
+                    <NotesThread
+                      propertyId={selectedProperty.id}
+                      notes={selectedProperty.notes}
+                      teammates={teammates}
+                      composerRef={noteComposerRef}
+                      onChange={refreshNotes}
+                    />
                   </div>
                 </div>
               </div>
 
+              {/* Outreach Section */}
+              <div className="mb-6 border rounded-lg p-4 bg-white shadow">
+                <h2 className="text-2xl font-semibold mb-4 border-b pb-2">
+                  OUTREACH
+                </h2>
+                <OutreachPanel
+                  key={selectedProperty.id}
+                  property={selectedProperty}
+                  templates={outreachTemplates}
+                  senderName={senderName}
+                  onSent={handleOutreachSent}
+                />
+              </div>
+
               {/* Upload Generated Image Section */}
               {selectedProperty && (
                 <ImageUploader
@@ -638,11 +1144,34 @@ export default function PropertyWorkbenchClient({
                   </span>
                 </button>
               </div>
+
+              <ActivityTimeline
+                activities={selectedProperty.activities}
+                propertyId={selectedProperty.id}
+              />
             </>
+          ) : missingId ? (
+            <div className="border rounded-lg p-8 bg-white shadow text-center">
+              <p className="text-4xl font-bold text-gray-300 mb-2">404</p>
+              <p className="text-lg font-medium">
+                Property #{missingId} was not found
+              </p>
+              <p className="text-gray-500">
+                It may have been moved to the{' '}
+                <Link
+                  href="/property-workbench/trash"
+                  className="text-blue-600 hover:underline"
+                >
+                  Trash
+                </Link>{' '}
+                or rolled back with its import. Pick another property from the
+                Leads list.
+              </p>
+            </div>
           ) : (
             <div className="border rounded-lg p-4 bg-white shadow text-center">
               <p className="text-gray-500">
-                Select a property from the New Leads list
+                Select a property from the Leads list
               </p>
             </div>
           )}
@@ -654,21 +1183,14 @@ export default function PropertyWorkbenchClient({
           <div className="border rounded-lg p-4 bg-white shadow">
             <div className="flex justify-between items-center mb-4 border-b pb-2">
               <h2 className="text-2xl font-semibold">SEARCH</h2>
-              <div className="flex items-center pl-4">
-                <input
-                  type="checkbox"
-                  id="id-only-search"
-                  checked={idOnlySearch}
-                  onChange={toggleIdOnlySearch}
-                  className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                />
-                <label
-                  htmlFor="id-only-search"
-                  className="text-sm font-medium text-gray-700"
-                >
-                  Search for property ID only
-                </label>
-              </div>
+              <span
+                className="pl-4 text-xs text-gray-500"
+                title={
+                  'Narrow with fields, e.g. state:CA price:<500000 dom:>60 stage:new agent:"Jane Doe" has:generated -has:notes id:123'
+                }
+              >
+                Try <code>state:CA</code> or <code>id:123</code>
+              </span>
             </div>
             <form onSubmit={handleSearch} className="mb-4">
               <div className="relative">
@@ -677,11 +1199,13 @@ export default function PropertyWorkbenchClient({
                   type="text"
                   value={searchTerm}
                   onChange={handleSearchChange}
-                  placeholder={
-                    idOnlySearch
-                      ? 'Search by property ID'
-                      : 'Search by address, name, phone, or ID'
-                  }
+                  onKeyDown={handleSearchKeyDown}
+                  onBlur={() => setSuggestions([])}
+                  placeholder="Search by address, agent, phone, notes, or ID"
+                  role="combobox"
+                  aria-controls="search-suggestions"
+                  aria-expanded={suggestions.length > 0}
+                  aria-autocomplete="list"
                   className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500 focus:outline-none pr-10"
                   disabled={isSearching}
                 />
@@ -751,7 +1275,15 @@ export default function PropertyWorkbenchClient({
                     </svg>
                   )}
                 </button>
+                <SearchSuggestionList
+                  suggestions={suggestions}
+                  activeIndex={activeSuggestion}
+                  onSelect={handleSuggestionSelect}
+                />
               </div>
+              {searchError && (
+                <p className="mt-2 text-sm text-red-600">{searchError}</p>
+              )}
             </form>
 
             {/* Search Results */}
@@ -759,17 +1291,31 @@ export default function PropertyWorkbenchClient({
               <div className="overflow-auto h-[440px]">
                 <table className="w-full text-sm table-fixed">
                   <colgroup>
-                    <col style={{ width: '70%' }} />
+                    <col style={{ width: '10%' }} />
+                    <col style={{ width: '60%' }} />
                     <col style={{ width: '30%' }} />
                   </colgroup>
                   <thead className="bg-gray-50 sticky top-0">
                     <tr>
+                      <th className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={
+                            selection.source === 'search' &&
+                            searchResults.every((property) =>
+                              selection.ids.includes(property.id)
+                            )
+                          }
+                          onChange={() => handleToggleAllChecked('search')}
+                          title="Select all shown"
+                        />
+                      </th>
                       <th className="p-2 text-left">Property</th>
                       <th className="p-2 text-left">Status</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {searchResults.map((property) => (
+                    {searchResults.map((property, index) => (
                       <tr
                         key={property.id}
                         className={`border-b hover:bg-gray-50 cursor-pointer ${
@@ -779,23 +1325,98 @@ export default function PropertyWorkbenchClient({
                         }`}
                         onClick={() => fetchProperty(property.id)}
                       >
+                        <td className="p-2 align-top">
+                          <input
+                            type="checkbox"
+                            checked={
+                              selection.source === 'search' &&
+                              selection.ids.includes(property.id)
+                            }
+                            readOnly
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleToggleChecked(
+                                'search',
+                                property.id,
+                                index,
+                                e.shiftKey
+                              )
+                            }}
+                          />
+                        </td>
                         <td className="p-2 pr-0 align-top">
                           <div className="font-medium">
-                            {property.street_address || (
+                            {property.street_address ? (
+                              <Highlight
+                                text={property.street_address}
+                                terms={searchTerms}
+                              />
+                            ) : (
                               <span className="text-gray-400">No Address</span>
                             )}
                           </div>
+                          {(property.matchedFields.includes('city') ||
+                            property.matchedFields.includes('zipcode')) && (
+                            <div className="text-xs text-gray-600">
+                              <Highlight
+                                text={[
+                                  property.city,
+                                  property.state,
+                                  property.zipcode,
+                                ]
+                                  .filter(Boolean)
+                                  .join(', ')}
+                                terms={searchTerms}
+                              />
+                            </div>
+                          )}
                           {property.display_name && (
                             <div className="text-xs text-gray-600">
-                              Agent: {property.display_name}
+                              Agent:{' '}
+                              <Highlight
+                                text={property.display_name}
+                                terms={searchTerms}
+                              />
                             </div>
                           )}
+                          {property.business_name &&
+                            property.matchedFields.includes(
+                              'business_name'
+                            ) && (
+                              <div className="text-xs text-gray-600">
+                                Business:{' '}
+                                <Highlight
+                                  text={property.business_name}
+                                  terms={searchTerms}
+                                />
+                              </div>
+                            )}
                           {property.phone_number && (
-                            <div className="text-xs text-gray-600">
+                            <div
+                              className={`text-xs text-gray-600 ${
+                                property.matchedFields.includes('phone_number')
+                                  ? 'font-semibold'
+                                  : ''
+                              }`}
+                            >
                               Phone: {property.phone_number}
                             </div>
                           )}
-                          <div className="text-xs text-gray-600">
+                          {property.notesExcerpt && (
+                            <div className="text-xs text-gray-500 italic">
+                              <Highlight
+                                text={property.notesExcerpt}
+                                terms={searchTerms}
+                              />
+                            </div>
+                          )}
+                          <div
+                            className={`text-xs text-gray-600 ${
+                              property.matchedFields.includes('id')
+                                ? 'font-semibold'
+                                : ''
+                            }`}
+                          >
                             ID: {property.id}
                           </div>
                         </td>
@@ -803,14 +1424,10 @@ export default function PropertyWorkbenchClient({
                           <div className="flex justify-start">
                             <span
                               className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${
-                                property.contacted_agent
-                                  ? 'bg-green-100 text-green-800'
-                                  : 'bg-blue-100 text-blue-800'
+                                getLeadStage(property.stage).badgeClass
                               }`}
                             >
-                              {property.contacted_agent
-                                ? 'Contacted'
-                                : 'New Lead'}
+                              {getLeadStage(property.stage).label}
                             </span>
                           </div>
                         </td>
@@ -818,15 +1435,22 @@ export default function PropertyWorkbenchClient({
                     ))}
                   </tbody>
                 </table>
-                {hasMoreResults && (
-                  <div className="p-2 text-center text-yellow-600 bg-yellow-50 border-t border-yellow-200">
-                    More than 30 properties found. Please refine your search.
+                {nextSearchOffset !== null && (
+                  <div className="p-2 text-center">
+                    <button
+                      onClick={handleLoadMoreResults}
+                      disabled={isLoadingMoreResults}
+                      className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+                    >
+                      {isLoadingMoreResults ? 'Loading...' : 'Show more'}
+                    </button>
                   </div>
                 )}
               </div>
             ) : (
               searchTerm &&
-              !isSearching && (
+              !isSearching &&
+              !searchError && (
                 <div className="p-4 text-center text-gray-500 bg-gray-50 rounded">
                   No properties found.
                 </div>
@@ -834,96 +1458,47 @@ export default function PropertyWorkbenchClient({
             )}
           </div>
 
-          {/* New Leads Section */}
-          <div className="border rounded-lg p-4 bg-white shadow">
-            <h2 className="text-2xl font-semibold mb-4 border-b pb-2">
-              NEW LEADS
-            </h2>
-            {newLeads.length > 0 ? (
-              <div className="overflow-auto h-[640px]">
-                <table className="w-full text-sm">
-                  <thead className="bg-gray-50 sticky top-0">
-                    <tr>
-                      <th className="p-2 text-left">Address</th>
-                      <th className="p-2 text-left">State</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {newLeads.map((lead) => (
-                      <tr
-                        key={lead.id}
-                        className={`border-b hover:bg-gray-50 cursor-pointer ${
-                          selectedProperty?.id === lead.id ? 'bg-blue-50' : ''
-                        }`}
-                        onClick={() => fetchProperty(lead.id)}
-                      >
-                        <td className="p-2">
-                          {lead.street_address || (
-                            <span className="text-gray-400">No Address</span>
-                          )}
-                        </td>
-                        <td className="p-2">
-                          {lead.state || (
-                            <span className="text-gray-400">N/A</span>
-                          )}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            ) : (
-              <p className="text-gray-400">No new leads found</p>
-            )}
-          </div>
+          {/* Saved searches with live counts */}
+          <SavedSearches
+            savedSearches={savedSearches}
+            searchQuery={searchTerm}
+            filters={filters}
+          />
 
-          {/* Recently Contacted Section */}
-          <div className="border rounded-lg p-4 bg-white shadow">
-            <h2 className="text-2xl font-semibold mb-4 border-b pb-2">
-              RECENTLY CONTACTED
-            </h2>
-            {recentlyContactedProperties.length > 0 ? (
-              <div className="overflow-auto h-[640px]">
-                <table className="w-full text-sm">
-                  <thead className="bg-gray-50 sticky top-0">
-                    <tr>
-                      <th className="p-2 text-left">Address</th>
-                      <th className="p-2 text-left">State</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {recentlyContactedProperties.map((property) => (
-                      <tr
-                        key={property.id}
-                        className={`border-b hover:bg-gray-50 cursor-pointer ${
-                          selectedProperty?.id === property.id
-                            ? 'bg-blue-50'
-                            : ''
-                        }`}
-                        onClick={() => fetchProperty(property.id)}
-                      >
-                        <td className="p-2">
-                          {property.street_address || (
-                            <span className="text-gray-400">No Address</span>
-                          )}
-                        </td>
-                        <td className="p-2">
-                          {property.state || (
-                            <span className="text-gray-400">N/A</span>
-                          )}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            ) : (
-              <p className="text-gray-400">No contacted properties found</p>
-            )}
-          </div>
+          {/* Lead filters, kept in the URL */}
+          <LeadFilters filters={filters} options={filterOptions} />
+
+          {/* Leads grouped by pipeline stage */}
+          <LeadLists
+            leads={leads}
+            stageCounts={stageCounts}
+            activeStage={activeStage}
+            hasMore={nextCursor !== null}
+            isLoadingMore={isLoadingMoreLeads}
+            selectedPropertyId={selectedProperty?.id}
+            checkedIds={selection.source === 'leads' ? selection.ids : []}
+            onLeadSelect={fetchProperty}
+            onLoadMore={handleLoadMoreLeads}
+            onToggleChecked={(id, index, shiftKey) =>
+              handleToggleChecked('leads', id, index, shiftKey)
+            }
+            onToggleAllChecked={() => handleToggleAllChecked('leads')}
+          />
         </div>
       </div>
 
+      {(selection.ids.length > 0 || selection.isAllMatching) && (
+        <BulkActionBar
+          target={bulkTarget}
+          count={selection.isAllMatching ? matchingCount : selection.ids.length}
+          isAllMatching={selection.isAllMatching}
+          canSelectAllMatching={canSelectAllMatching}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClear={() => setSelection(EMPTY_SELECTION)}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
       {/* Confirmation Dialog for Deleting Property */}
       {selectedProperty && (
         <ConfirmationDialog
@@ -933,7 +1508,15 @@ export default function PropertyWorkbenchClient({
           title="Delete Property"
           message={`Are you sure you want to delete '${
             selectedProperty.street_address || 'this property'
-          }'? This will also delete all related images.`}
+          }'? It will be moved to the Trash, where it can be restored until it is purged.`}
+        />
+      )}
+
+      {undoDelete && (
+        <UndoToast
+          message={undoDelete.message}
+          onUndo={handleUndoDelete}
+          onDismiss={dismissUndoDelete}
         />
       )}
     </div>
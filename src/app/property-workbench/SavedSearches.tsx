@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  setSavedSearchShared,
+} from './actions'
+import { SavedSearchSummary } from './types'
+import { PropertyFilters } from '@/lib/property-filters'
+import ConfirmationDialog from '@/components/ConfirmationDialog'
+
+interface SavedSearchesProps {
+  savedSearches: SavedSearchSummary[]
+  // Current search box query and lead filters, saved by the form
+  searchQuery: string
+  filters: PropertyFilters
+}
+
+/**
+ * Workbench URL that reopens a saved search
+ */
+function getSavedSearchHref(savedSearch: SavedSearchSummary) {
+  const params = new URLSearchParams(savedSearch.filters)
+  if (savedSearch.query) {
+    params.set('q', savedSearch.query)
+  }
+  return `/property-workbench?${params.toString()}`
+}
+
+export default function SavedSearches({
+  savedSearches,
+  searchQuery,
+  filters,
+}: SavedSearchesProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [isShared, setIsShared] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [searchToDelete, setSearchToDelete] =
+    useState<SavedSearchSummary | null>(null)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setErrorMessage(null)
+
+    try {
+      const result = await createSavedSearch({
+        name,
+        query: searchQuery,
+        filters,
+        isShared,
+      })
+      if (!result.success) {
+        setErrorMessage(result.error ?? 'Failed to save search')
+        return
+      }
+
+      setName('')
+      setIsShared(false)
+      setIsFormOpen(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleShared = async (savedSearch: SavedSearchSummary) => {
+    try {
+      await setSavedSearchShared(savedSearch.id, !savedSearch.is_shared)
+    } catch (error) {
+      console.error('Error updating saved search:', error)
+      setErrorMessage('Failed to update saved search')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!searchToDelete) return
+
+    try {
+      await deleteSavedSearch(searchToDelete.id)
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+      setErrorMessage('Failed to delete saved search')
+    } finally {
+      setSearchToDelete(null)
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-white shadow">
+      <div className="flex justify-between items-center mb-2 border-b pb-2">
+        <h2 className="text-2xl font-semibold">SAVED</h2>
+        <button
+          onClick={() => setIsFormOpen(!isFormOpen)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          {isFormOpen ? 'Cancel' : 'Save current search'}
+        </button>
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSave} className="mb-3 space-y-2 text-sm">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. CA price drops > 90 days"
+            className="w-full p-1 border rounded focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            autoFocus
+          />
+          <p className="text-xs text-gray-500">
+            Saves the search box query
+            {searchQuery && (
+              <>
+                {' '}
+                <code>{searchQuery}</code>
+              </>
+            )}{' '}
+            and the active lead filters.
+          </p>
+          <div className="flex justify-between items-center">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+              />
+              Share with the team
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {errorMessage && (
+        <p className="mb-2 text-sm text-red-600">{errorMessage}</p>
+      )}
+
+      {savedSearches.length > 0 ? (
+        <ul className="text-sm divide-y">
+          {savedSearches.map((savedSearch) => (
+            <li
+              key={savedSearch.id}
+              className="py-1 flex justify-between items-center gap-2"
+            >
+              <div className="min-w-0">
+                <Link
+                  href={getSavedSearchHref(savedSearch)}
+                  className="block truncate text-blue-600 hover:underline"
+                  title={savedSearch.query || undefined}
+                >
+                  {savedSearch.name}
+                </Link>
+                {!savedSearch.isOwn && (
+                  <span className="text-xs text-gray-500">
+                    Shared by {savedSearch.ownerName}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span
+                  className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+                  title={
+                    savedSearch.count === null
+                      ? 'This search no longer parses'
+                      : undefined
+                  }
+                >
+                  {savedSearch.count ?? '!'}
+                </span>
+                {savedSearch.isOwn && (
+                  <>
+                    <button
+                      onClick={() => handleToggleShared(savedSearch)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                      title={
+                        savedSearch.is_shared
+                          ? 'Shared with the team, click to make private'
+                          : 'Private, click to share with the team'
+                      }
+                    >
+                      {savedSearch.is_shared ? 'Shared' : 'Private'}
+                    </button>
+                    <button
+                      onClick={() => setSearchToDelete(savedSearch)}
+                      className="text-xs text-red-500 hover:text-red-700"
+                      title="Delete saved search"
+                    >
+                      ✕
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 text-sm">No saved searches yet</p>
+      )}
+
+      <ConfirmationDialog
+        isOpen={searchToDelete !== null}
+        onClose={() => setSearchToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Saved Search"
+        message={`Are you sure you want to delete "${searchToDelete?.name ?? 'this search'}"?`}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { SearchSuggestion } from '@/lib/search-query'
+
+interface SearchSuggestionListProps {
+  suggestions: SearchSuggestion[]
+  activeIndex: number
+  onSelect: (suggestion: SearchSuggestion) => void
+}
+
+/**
+ * Dropdown of field names and values under the search box
+ */
+export default function SearchSuggestionList({
+  suggestions,
+  activeIndex,
+  onSelect,
+}: SearchSuggestionListProps) {
+  if (suggestions.length === 0) return null
+
+  return (
+    <ul
+      id="search-suggestions"
+      role="listbox"
+      className="absolute z-10 top-full left-0 right-0 mt-1 bg-white border rounded shadow text-sm"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.value}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the search box while choosing
+          onMouseDown={(e) => {
+            e.preventDefault()
+            onSelect(suggestion)
+          }}
+          className={`px-2 py-1 cursor-pointer ${
+            index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+          }`}
+        >
+          <span className="font-mono font-medium">{suggestion.label}</span>
+          <span className="ml-2 text-xs text-gray-500">
+            {suggestion.description}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,35 @@
+import { PropertyStageTransition } from '@prisma/client'
+import { getLeadStage } from '@/lib/lead-stages'
+
+export interface StageTransitionWithUser extends PropertyStageTransition {
+  user: { name: string | null; email: string } | null
+}
+
+interface StageHistoryProps {
+  transitions: StageTransitionWithUser[]
+}
+
+export default function StageHistory({ transitions }: StageHistoryProps) {
+  if (transitions.length === 0) {
+    return null
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+      {transitions.map((transition) => (
+        <li key={transition.id}>
+          {transition.from_stage
+            ? getLeadStage(transition.from_stage).label
+            : 'Created'}{' '}
+          → {getLeadStage(transition.to_stage).label}
+          <span className="text-gray-400">
+            {' '}
+            {transition.created_at.toLocaleString()}
+            {transition.user &&
+              ` by ${transition.user.name || transition.user.email}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * Keyboard shortcuts available in triage mode
+ */
+export const TRIAGE_SHORTCUTS = [
+  { key: 'j', description: 'Next lead' },
+  { key: 'k', description: 'Previous lead' },
+  { key: 'c', description: 'Mark contacted and go to the next lead' },
+  { key: 'n', description: 'Write a note' },
+  { key: 'Ctrl+Enter', description: 'Post the note' },
+  { key: 'u', description: 'Focus the image paste area' },
+  { key: 'd', description: 'Delete, then go to the next lead' },
+  { key: '/', description: 'Focus search' },
+  { key: '?', description: 'Show or hide this list' },
+  { key: 'Esc', description: 'Leave a text box' },
+] as const
+
+interface TriageCheatSheetProps {
+  onClose: () => void
+}
+
+export default function TriageCheatSheet({ onClose }: TriageCheatSheetProps) {
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 p-4 bg-white border rounded-lg shadow-lg text-sm text-gray-800">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold">Triage shortcuts</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          title="Hide shortcuts"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {TRIAGE_SHORTCUTS.map((shortcut) => (
+          <li key={shortcut.key} className="flex gap-2">
+            <kbd className="min-w-[2rem] px-1 whitespace-nowrap text-center font-mono bg-gray-100 border rounded">
+              {shortcut.key}
+            </kbd>
+            <span>{shortcut.description}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+// How long the toast stays up before the deletion is left as is
+const UNDO_TIMEOUT_MS = 10000
+
+interface UndoToastProps {
+  message: string
+  onUndo: () => Promise<void>
+  onDismiss: () => void
+}
+
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+}: UndoToastProps) {
+  const [isUndoing, setIsUndoing] = useState(false)
+
+  // Restart the timer when a new deletion replaces the toast
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, UNDO_TIMEOUT_MS)
+    return () => clearTimeout(timeout)
+  }, [message, onDismiss])
+
+  const handleUndo = async () => {
+    setIsUndoing(true)
+    try {
+      await onUndo()
+    } finally {
+      setIsUndoing(false)
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-40 p-3 bg-gray-800 text-white text-sm rounded-lg shadow-lg flex items-center gap-4"
+    >
+      <span>{message}</span>
+      <button
+        onClick={handleUndo}
+        disabled={isUndoing}
+        className="font-semibold text-blue-300 hover:text-blue-200 disabled:text-gray-400"
+      >
+        {isUndoing ? 'Undoing...' : 'Undo'}
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-200"
+        title="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { WorkbenchSearchParams, loadWorkbench } from '../load-workbench'
+import PropertyWorkbenchClient from '../PropertyWorkbenchClient'
+import { parseId } from '@/lib/utils'
+
+export default async function PropertyWorkbenchPropertyPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<WorkbenchSearchParams>
+}) {
+  const { id } = await params
+  const propertyId = parseId(id)
+  const workbench = await loadWorkbench(
+    await searchParams,
+    propertyId ?? undefined
+  )
+
+  // An id that no longer exists shows a not-found state in the workbench
+  return (
+    <PropertyWorkbenchClient
+      {...workbench}
+      missingPropertyId={workbench.initialProperty ? undefined : id}
+    />
+  )
+}
@@ -1,21 +1,113 @@
 'use server'
 
+import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
 import { randomBytes } from 'crypto'
+import { auth } from '@/auth'
+import { ActivityEntry, recordActivity } from '@/lib/activity'
+import { recordAgentContact } from '@/lib/agents'
+import { getEmailTransport, getOutreachSender } from '@/lib/email'
+import { findMentionHandles, getMentionHandle } from '@/lib/mentions'
+import {
+  LEAD_STAGE_IDS,
+  LeadStage,
+  isBeforeStage,
+  isLeadStage,
+} from '@/lib/lead-stages'
+import { buildOutreachHtml, findUnknownMergeFields } from '@/lib/outreach'
+import { recordOutreachReplies } from '@/lib/outreach-replies'
+import {
+  PropertyFilters,
+  applyPropertyFilters,
+  buildPropertyWhere,
+  countActiveFilters,
+  parsePropertyFilters,
+} from '@/lib/property-filters'
+import { buildPropertyCsv } from '@/lib/property-export'
+import {
+  getPurgeDate,
+  getTrashRetentionDays,
+  purgePropertyRecords,
+} from '@/lib/property-trash'
+import {
+  PropertySearchPage,
+  countPropertyIndex,
+  getPropertyIndexIds,
+  searchPropertyIndex,
+} from '@/lib/property-search'
+import { SearchQueryError, parseSearchQuery } from '@/lib/search-query'
+import { getS3ImageUrl, parseId, parseTags } from '@/lib/utils'
+import { BulkTarget } from './types'
 
 /**
- * Get a property by ID with its related images
+ * Get a property by ID with its related images, price history, stage
+ * transitions, notes, agent, outreach emails and latest activity.
+ * Properties in the trash are not found.
  */
 export async function getPropertyById(id: number) {
   try {
-    const property = await prisma.property.findUnique({
-      where: { id },
+    const property = await prisma.property.findFirst({
+      where: { id, deleted_at: null },
       include: {
         unstaged_images: true,
         other_images: true,
         generated_images: true,
+        snapshots: {
+          orderBy: { created_at: 'desc' },
+        },
+        stage_transitions: {
+          include: {
+            user: {
+              select: { name: true, email: true },
+            },
+          },
+          orderBy: { created_at: 'desc' },
+        },
+        notes: {
+          include: {
+            author: {
+              select: { name: true, email: true },
+            },
+            revisions: {
+              include: {
+                editor: {
+                  select: { name: true, email: true },
+                },
+              },
+              orderBy: { created_at: 'desc' },
+            },
+          },
+          orderBy: [{ is_pinned: 'desc' }, { created_at: 'desc' }],
+        },
+        agent: {
+          include: {
+            last_contacted_by: {
+              select: { name: true, email: true },
+            },
+            _count: {
+              select: { properties: { where: { deleted_at: null } } },
+            },
+          },
+        },
+        outreach_emails: {
+          include: {
+            sender: {
+              select: { name: true, email: true },
+            },
+          },
+          orderBy: { sent_at: 'desc' },
+        },
+        activities: {
+          include: {
+            user: {
+              select: { name: true, email: true },
+            },
+          },
+          orderBy: { created_at: 'desc' },
+          take: 50,
+        },
       },
     })
     return property
@@ -25,88 +117,453 @@ export async function getPropertyById(id: number) {
   }
 }
 
+// Latest stage change first, then leads never moved by when they were
+// imported. The id breaks ties between leads moved or imported together.
+const STAGE_ORDER: Prisma.PropertyOrderByWithRelationInput[] = [
+  { stage_changed_at: { sort: 'desc', nulls: 'last' } },
+  { created_at: 'desc' },
+  { id: 'desc' },
+]
+
+/**
+ * Condition for the leads after `cursor` in STAGE_ORDER. Prisma's `cursor`
+ * does not page reliably past a null stage_changed_at, which every lead that
+ * never moved has, so the page boundary is spelled out instead.
+ */
+async function getStageOrderAfter(
+  cursor?: number
+): Promise<Prisma.PropertyWhereInput> {
+  if (!cursor) return {}
+
+  const last = await prisma.property.findUnique({
+    where: { id: cursor },
+    select: { stage_changed_at: true, created_at: true },
+  })
+
+  if (!last) {
+    throw new Error(`Lead ${cursor} not found`)
+  }
+
+  const afterCreatedAt: Prisma.PropertyWhereInput = {
+    OR: [
+      { created_at: { lt: last.created_at } },
+      { created_at: last.created_at, id: { lt: cursor } },
+    ],
+  }
+
+  if (!last.stage_changed_at) {
+    return { stage_changed_at: null, ...afterCreatedAt }
+  }
+
+  return {
+    OR: [
+      { stage_changed_at: { lt: last.stage_changed_at } },
+      { stage_changed_at: null },
+      { stage_changed_at: last.stage_changed_at, ...afterCreatedAt },
+    ],
+  }
+}
+
 /**
- * Get all properties where contacted_agent is false
+ * Get one page of the leads in a pipeline stage that match the filters,
+ * most recently moved first. Pass the id of the last lead already shown to
+ * get the page after it.
  */
-export async function getNewLeads() {
+export async function getLeadsByStage(
+  stage: LeadStage,
+  filters: PropertyFilters = {},
+  cursor?: number
+) {
+  const pageSize = 50
+
   try {
-    const newLeads = await prisma.property.findMany({
+    const leads = await prisma.property.findMany({
       where: {
-        contacted_agent: false,
+        AND: [
+          { ...buildPropertyWhere(filters), stage, deleted_at: null },
+          await getStageOrderAfter(cursor),
+        ],
       },
       select: {
         id: true,
         street_address: true,
         state: true,
+        price: true,
+        previous_price: true,
+        stage: true,
+        stage_changed_at: true,
         created_at: true,
       },
-      orderBy: {
-        created_at: 'desc',
-      },
+      orderBy: STAGE_ORDER,
+      take: pageSize + 1,
     })
-    return newLeads
+
+    const hasMore = leads.length > pageSize
+    const page = hasMore ? leads.slice(0, pageSize) : leads
+
+    return {
+      leads: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    }
   } catch (error) {
-    console.error('Error fetching new leads:', error)
-    throw new Error('Failed to fetch new leads')
+    console.error(`Error fetching ${stage} leads:`, error)
+    throw new Error('Failed to fetch leads')
   }
 }
 
 /**
- * Get recently contacted properties (contacted_agent is true)
+ * Distinct values for the lead list filters that pick from a fixed set
  */
-export async function getRecentlyContactedProperties() {
+export async function getFilterOptions() {
   try {
-    const contactedProperties = await prisma.property.findMany({
+    const [states, listingStatuses, agentBadgeTypes] = await Promise.all([
+      prisma.property.findMany({
+        where: { state: { not: null }, deleted_at: null },
+        select: { state: true },
+        distinct: ['state'],
+        orderBy: { state: 'asc' },
+      }),
+      prisma.property.findMany({
+        where: { listing_status: { not: null }, deleted_at: null },
+        select: { listing_status: true },
+        distinct: ['listing_status'],
+        orderBy: { listing_status: 'asc' },
+      }),
+      prisma.property.findMany({
+        where: { agent_badge_type: { not: null }, deleted_at: null },
+        select: { agent_badge_type: true },
+        distinct: ['agent_badge_type'],
+        orderBy: { agent_badge_type: 'asc' },
+      }),
+    ])
+
+    return {
+      states: states.map((row) => row.state!),
+      listingStatuses: listingStatuses.map((row) => row.listing_status!),
+      agentBadgeTypes: agentBadgeTypes.map((row) => row.agent_badge_type!),
+    }
+  } catch (error) {
+    console.error('Error fetching filter options:', error)
+    throw new Error('Failed to fetch filter options')
+  }
+}
+
+/**
+ * Get one page of board cards for a pipeline stage. Pass the id of the last
+ * card already shown to get the page after it.
+ */
+export async function getBoardCards(stage: LeadStage, cursor?: number) {
+  const pageSize = 20
+
+  try {
+    const cards = await prisma.property.findMany({
       where: {
-        contacted_agent: true,
+        stage,
+        deleted_at: null,
+        AND: [await getStageOrderAfter(cursor)],
       },
       select: {
         id: true,
         street_address: true,
+        city: true,
         state: true,
-        created_at: true,
-      },
-      orderBy: {
-        created_at: 'desc',
+        display_name: true,
+        price: true,
+        previous_price: true,
+        days_on_zillow: true,
+        stage: true,
+        generated_images: {
+          select: { image_url: true },
+          orderBy: { id: 'asc' },
+          take: 1,
+        },
       },
+      orderBy: STAGE_ORDER,
+      take: pageSize + 1,
+    })
+
+    const hasMore = cards.length > pageSize
+    const page = hasMore ? cards.slice(0, pageSize) : cards
+
+    return {
+      cards: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    }
+  } catch (error) {
+    console.error(`Error fetching ${stage} board cards:`, error)
+    throw new Error('Failed to fetch board cards')
+  }
+}
+
+/**
+ * Count the properties matching the filters in every pipeline stage
+ */
+export async function getStageCounts(filters: PropertyFilters = {}) {
+  try {
+    const groups = await prisma.property.groupBy({
+      by: ['stage'],
+      where: { ...buildPropertyWhere(filters), deleted_at: null },
+      _count: { _all: true },
     })
-    return contactedProperties
+    const counts = Object.fromEntries(
+      LEAD_STAGE_IDS.map((stage) => [stage, 0])
+    ) as Record<LeadStage, number>
+    for (const group of groups) {
+      if (isLeadStage(group.stage)) {
+        counts[group.stage] = group._count._all
+      }
+    }
+    return counts
   } catch (error) {
-    console.error('Error fetching contacted properties:', error)
-    throw new Error('Failed to fetch contacted properties')
+    console.error('Error counting properties by stage:', error)
+    throw new Error('Failed to count properties by stage')
   }
 }
 
 /**
- * Toggle the contacted_agent status for a property
+ * Move a property to another pipeline stage, recording the transition
  */
-export async function toggleContactedAgent(id: number) {
+export async function setPropertyStage(id: number, stage: LeadStage) {
   try {
-    // Get current status
-    const property = await prisma.property.findUnique({
-      where: { id },
-      select: { contacted_agent: true },
+    if (!isLeadStage(stage)) {
+      throw new Error(`Unknown stage: ${stage}`)
+    }
+
+    const session = await auth()
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const property = await tx.property.findFirst({
+        where: { id, deleted_at: null },
+        select: { stage: true, stage_changed_at: true },
+      })
+
+      if (!property) {
+        throw new Error('Property not found')
+      }
+      if (property.stage === stage) {
+        return property
+      }
+
+      const changedAt = new Date()
+      await tx.propertyStageTransition.create({
+        data: {
+          property_id: id,
+          from_stage: property.stage,
+          to_stage: stage,
+          user_id: session?.user?.id,
+          created_at: changedAt,
+        },
+      })
+      await recordActivity(
+        session?.user?.id,
+        [
+          {
+            propertyId: id,
+            action: 'stage_change',
+            before: { stage: property.stage },
+            after: { stage },
+          },
+        ],
+        tx
+      )
+      if (stage === 'contacted') {
+        await recordAgentContact(tx, [id], session?.user?.id, changedAt)
+      }
+      await recordOutreachReplies(
+        tx,
+        [{ propertyId: id, fromStage: property.stage }],
+        stage,
+        changedAt
+      )
+
+      return tx.property.update({
+        where: { id },
+        data: { stage, stage_changed_at: changedAt },
+        select: { stage: true, stage_changed_at: true },
+      })
+    })
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+
+    return { success: true, ...updated }
+  } catch (error) {
+    console.error('Error updating property stage:', error)
+    throw new Error('Failed to update property stage')
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// The email is sent while the transaction recording it is open
+const SEND_TRANSACTION_TIMEOUT = 30_000
+
+/**
+ * Email the agent of a property with the chosen unstaged images as the
+ * before and generated images as the after, record the email and move the
+ * lead to contacted if it was not contacted yet. `isRecorded` is false when
+ * the email went out but could not be recorded, so it is not sent again.
+ */
+export async function sendOutreachEmail(data: {
+  propertyId: number
+  templateVersionId: number | null
+  to: string
+  subject: string
+  body: string
+  beforeImageIds: number[]
+  afterImageIds: number[]
+}) {
+  try {
+    const to = data.to.trim()
+    const subject = data.subject.trim()
+
+    if (!EMAIL_PATTERN.test(to)) {
+      throw new Error(`Invalid email address: ${to}`)
+    }
+    if (!subject || !data.body.trim()) {
+      throw new Error('Email subject and body are required')
+    }
+    const unknownFields = findUnknownMergeFields(`${subject}\n${data.body}`)
+    if (unknownFields.length > 0) {
+      throw new Error(`Unknown merge fields: ${unknownFields.join(', ')}`)
+    }
+
+    const session = await auth()
+    const userId = session?.user?.id
+
+    const property = await prisma.property.findFirst({
+      where: { id: data.propertyId, deleted_at: null },
+      select: {
+        stage: true,
+        agent_id: true,
+        unstaged_images: {
+          where: { id: { in: data.beforeImageIds } },
+          orderBy: { id: 'asc' },
+        },
+        generated_images: {
+          where: { id: { in: data.afterImageIds } },
+          orderBy: { id: 'asc' },
+        },
+      },
     })
 
     if (!property) {
       throw new Error('Property not found')
     }
 
-    // Toggle the status
-    await prisma.property.update({
-      where: { id },
-      data: {
-        contacted_agent: !property.contacted_agent,
-      },
+    // Archived templates and paused variants cannot be sent
+    if (data.templateVersionId !== null) {
+      const version = await prisma.outreachTemplateVersion.findFirst({
+        where: {
+          id: data.templateVersionId,
+          variant: { is_active: true, template: { archived_at: null } },
+        },
+        select: { id: true },
+      })
+      if (!version) {
+        throw new Error('Template version not found')
+      }
+    }
+
+    const html = buildOutreachHtml(data.body, {
+      before: property.unstaged_images.map((image) => image.unstaged_images),
+      after: property.generated_images.map((image) =>
+        getS3ImageUrl(image.image_url)
+      ),
     })
+    const transport = getEmailTransport()
+    let isSent = false
+
+    try {
+      // The email is sent last, so failing to send it records nothing
+      await prisma.$transaction(
+        async (tx) => {
+          const sentAt = new Date()
+          const email = await tx.outreachEmail.create({
+            data: {
+              property_id: data.propertyId,
+              agent_id: property.agent_id,
+              sender_id: userId,
+              to_email: to,
+              subject,
+              body: data.body,
+              html,
+              template_version_id: data.templateVersionId,
+              transport: transport.name,
+              sent_at: sentAt,
+            },
+          })
+          if (property.agent_id) {
+            await tx.agent.update({
+              where: { id: property.agent_id },
+              data: { email: to },
+            })
+          }
+          await recordAgentContact(tx, [data.propertyId], userId, sentAt)
+
+          const entries: ActivityEntry[] = [
+            {
+              propertyId: data.propertyId,
+              action: 'email_sent',
+              after: { to, subject },
+            },
+          ]
+          if (isBeforeStage(property.stage, 'contacted')) {
+            await tx.propertyStageTransition.create({
+              data: {
+                property_id: data.propertyId,
+                from_stage: property.stage,
+                to_stage: 'contacted',
+                user_id: userId,
+                created_at: sentAt,
+              },
+            })
+            await tx.property.update({
+              where: { id: data.propertyId },
+              data: { stage: 'contacted', stage_changed_at: sentAt },
+            })
+            entries.push({
+              propertyId: data.propertyId,
+              action: 'stage_change',
+              before: { stage: property.stage },
+              after: { stage: 'contacted' },
+            })
+          }
+          await recordActivity(userId, entries, tx)
+
+          const messageId = await transport.send({
+            from: getOutreachSender(),
+            to,
+            replyTo: session?.user?.email ?? undefined,
+            subject,
+            text: data.body,
+            html,
+          })
+          isSent = true
+          if (messageId) {
+            await tx.outreachEmail.update({
+              where: { id: email.id },
+              data: { provider_message_id: messageId },
+            })
+          }
+        },
+        { timeout: SEND_TRANSACTION_TIMEOUT }
+      )
+    } catch (error) {
+      if (!isSent) throw error
+      // Sending it again would email the agent twice
+      console.error('Error recording sent outreach email:', error)
+      revalidatePath('/property-workbench')
+      return { success: true, isRecorded: false }
+    }
 
     // Revalidate the page
     revalidatePath('/property-workbench')
 
-    return { success: true }
+    return { success: true, isRecorded: true }
   } catch (error) {
-    console.error('Error toggling contacted_agent status:', error)
-    throw new Error('Failed to update property')
+    console.error('Error sending outreach email:', error)
+    throw new Error('Failed to send email')
   }
 }
 
@@ -116,7 +573,7 @@ export async function toggleContactedAgent(id: number) {
 export async function uploadImageToS3(formData: FormData) {
   try {
     const file = formData.get('file') as File
-    const propertyId = parseInt(formData.get('propertyId') as string)
+    const propertyId = parseId(formData.get('propertyId') as string)
     const streetAddress = formData.get('streetAddress') as string
 
     if (!file || !propertyId) {
@@ -134,6 +591,18 @@ export async function uploadImageToS3(formData: FormData) {
       }
     }
 
+    const property = await prisma.property.findFirst({
+      where: { id: propertyId, deleted_at: null },
+      select: { id: true },
+    })
+
+    if (!property) {
+      return {
+        success: false,
+        error: 'Property not found',
+      }
+    }
+
     // Generate a unique file name with .jpg extension
     const randomString = randomBytes(6).toString('hex')
     const fileName = `${streetAddress}-${randomString}.jpg`
@@ -163,11 +632,25 @@ export async function uploadImageToS3(formData: FormData) {
     await s3Client.send(command)
 
     // Save reference to database
-    await prisma.generatedImage.create({
-      data: {
-        property_id: propertyId,
-        image_url: fileName,
-      },
+    const session = await auth()
+    await prisma.$transaction(async (tx) => {
+      await tx.generatedImage.create({
+        data: {
+          property_id: propertyId,
+          image_url: fileName,
+        },
+      })
+      await recordActivity(
+        session?.user?.id,
+        [
+          {
+            propertyId,
+            action: 'image_upload',
+            after: { image_url: fileName },
+          },
+        ],
+        tx
+      )
     })
 
     // Revalidate the page
@@ -184,13 +667,62 @@ export async function uploadImageToS3(formData: FormData) {
 }
 
 /**
- * Update property notes
+ * Set the teammates mentioned in a note from its text
+ */
+async function saveNoteMentions(
+  tx: Prisma.TransactionClient,
+  noteId: number,
+  body: string
+) {
+  const handles = findMentionHandles(body)
+  const users =
+    handles.length > 0
+      ? await tx.user.findMany({ select: { id: true, email: true } })
+      : []
+  const mentioned = users.filter((user) =>
+    handles.includes(getMentionHandle(user.email))
+  )
+
+  await tx.propertyNoteMention.deleteMany({ where: { note_id: noteId } })
+  await tx.propertyNoteMention.createMany({
+    data: mentioned.map((user) => ({ note_id: noteId, user_id: user.id })),
+  })
+}
+
+/**
+ * Add a note to a property's thread as the signed-in user
  */
-export async function updatePropertyNotes(id: number, notes: string) {
+export async function addPropertyNote(propertyId: number, body: string) {
   try {
-    await prisma.property.update({
-      where: { id },
-      data: { notes },
+    const session = await auth()
+    const text = body.trim()
+    if (!text) {
+      throw new Error('Note is empty')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const property = await tx.property.findFirst({
+        where: { id: propertyId, deleted_at: null },
+        select: { id: true },
+      })
+
+      if (!property) {
+        throw new Error('Property not found')
+      }
+
+      const note = await tx.propertyNote.create({
+        data: {
+          property_id: propertyId,
+          author_id: session?.user?.id,
+          body: text,
+        },
+      })
+      await saveNoteMentions(tx, note.id, text)
+      await recordActivity(
+        session?.user?.id,
+        [{ propertyId, action: 'note_add', after: { body: text } }],
+        tx
+      )
     })
 
     // Revalidate the page
@@ -198,40 +730,163 @@ export async function updatePropertyNotes(id: number, notes: string) {
 
     return { success: true }
   } catch (error) {
-    console.error('Error updating property notes:', error)
-    throw new Error('Failed to update property notes')
+    console.error('Error adding property note:', error)
+    throw new Error('Failed to add note')
   }
 }
 
 /**
- * Delete a property by ID and all its related records
+ * Change the text of a note, keeping the previous text in its history
  */
-export async function deleteProperty(id: number) {
+export async function editPropertyNote(id: number, body: string) {
   try {
-    // Use a transaction to ensure all related data is deleted
+    const session = await auth()
+    const text = body.trim()
+    if (!text) {
+      throw new Error('Note is empty')
+    }
+
     await prisma.$transaction(async (tx) => {
-      // Delete related images first (foreign key constraints)
-      await tx.otherImage.deleteMany({
-        where: { property_id: id },
+      const note = await tx.propertyNote.findFirst({
+        where: { id, property: { deleted_at: null } },
+        select: { property_id: true, body: true },
       })
 
-      await tx.generatedImage.deleteMany({
-        where: { property_id: id },
-      })
+      if (!note) {
+        throw new Error('Note not found')
+      }
+      if (note.body === text) return
 
-      await tx.unstagedImage.deleteMany({
-        where: { property_id: id },
+      await tx.propertyNoteRevision.create({
+        data: { note_id: id, body: note.body, editor_id: session?.user?.id },
       })
-
-      // Delete the property itself
-      await tx.property.delete({
+      await tx.propertyNote.update({
         where: { id },
+        data: { body: text },
+      })
+      await saveNoteMentions(tx, id, text)
+      await recordActivity(
+        session?.user?.id,
+        [
+          {
+            propertyId: note.property_id,
+            action: 'note_edit',
+            before: { body: note.body },
+            after: { body: text },
+          },
+        ],
+        tx
+      )
+    })
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error editing property note:', error)
+    throw new Error('Failed to edit note')
+  }
+}
+
+/**
+ * Pin a note to the top of its thread, or unpin it
+ */
+export async function setPropertyNotePinned(id: number, isPinned: boolean) {
+  try {
+    const session = await auth()
+
+    await prisma.$transaction(async (tx) => {
+      // Notes of properties in the trash are not found
+      const note = await tx.propertyNote.update({
+        where: { id, property: { deleted_at: null } },
+        data: { is_pinned: isPinned },
+        select: { property_id: true },
       })
+      await recordActivity(
+        session?.user?.id,
+        [
+          {
+            propertyId: note.property_id,
+            action: isPinned ? 'note_pin' : 'note_unpin',
+          },
+        ],
+        tx
+      )
     })
 
     // Revalidate the page
     revalidatePath('/property-workbench')
 
+    return { success: true }
+  } catch (error) {
+    console.error('Error pinning property note:', error)
+    throw new Error('Failed to pin note')
+  }
+}
+
+/**
+ * Everyone who can be mentioned in a note
+ */
+export async function getTeammates() {
+  try {
+    return await prisma.user.findMany({
+      select: { id: true, name: true, email: true },
+      orderBy: { name: 'asc' },
+    })
+  } catch (error) {
+    console.error('Error fetching teammates:', error)
+    throw new Error('Failed to fetch teammates')
+  }
+}
+
+/**
+ * Move properties to the trash, returning the IDs of those that were not
+ * already there
+ */
+async function trashPropertyRecords(ids: number[]) {
+  const session = await auth()
+
+  return prisma.$transaction(async (tx) => {
+    const properties = await tx.property.findMany({
+      where: { id: { in: ids }, deleted_at: null },
+      select: { id: true },
+    })
+    const trashedIds = properties.map(({ id }) => id)
+
+    const deletedAt = new Date()
+    await tx.property.updateMany({
+      where: { id: { in: trashedIds } },
+      data: { deleted_at: deletedAt },
+    })
+    await recordActivity(
+      session?.user?.id,
+      trashedIds.map((id) => ({
+        propertyId: id,
+        action: 'delete',
+        after: { deleted_at: deletedAt.toISOString() },
+      })),
+      tx
+    )
+    return trashedIds
+  })
+}
+
+/**
+ * Move a property to the trash. It keeps its images and can be restored
+ * until it is purged.
+ */
+export async function deleteProperty(id: number) {
+  try {
+    const ids = await trashPropertyRecords([id])
+    if (ids.length === 0) {
+      throw new Error('Property not found')
+    }
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+    revalidatePath('/property-workbench/trash')
+
     return { success: true }
   } catch (error) {
     console.error('Error deleting property:', error)
@@ -240,149 +895,517 @@ export async function deleteProperty(id: number) {
 }
 
 /**
- * Search properties by street address, display name, phone number or ID
- * Supports fuzzy matching, acronyms, and partial matches
- * Adding quotes allows exact matching
+ * Get the properties in the trash, most recently deleted first, with the
+ * date each will be purged
  */
-export async function searchProperties(searchTerm: string, idOnly = false) {
+export async function getTrashedProperties() {
   try {
-    // Check if search term is empty
-    if (!searchTerm.trim()) {
-      return []
+    const retentionDays = getTrashRetentionDays()
+    const properties = await prisma.property.findMany({
+      where: { deleted_at: { not: null } },
+      select: {
+        id: true,
+        street_address: true,
+        city: true,
+        state: true,
+        stage: true,
+        deleted_at: true,
+        _count: {
+          select: { generated_images: true },
+        },
+      },
+      orderBy: { deleted_at: 'desc' },
+    })
+
+    return properties.map((property) => ({
+      ...property,
+      purgeAt: property.deleted_at
+        ? getPurgeDate(property.deleted_at, retentionDays)
+        : null,
+    }))
+  } catch (error) {
+    console.error('Error fetching trashed properties:', error)
+    throw new Error('Failed to fetch trashed properties')
+  }
+}
+
+/**
+ * Take properties back out of the trash
+ */
+export async function restoreProperties(ids: number[]) {
+  try {
+    const session = await auth()
+
+    const count = await prisma.$transaction(async (tx) => {
+      const properties = await tx.property.findMany({
+        where: { id: { in: ids }, deleted_at: { not: null } },
+        select: { id: true, deleted_at: true },
+      })
+
+      await tx.property.updateMany({
+        where: { id: { in: properties.map(({ id }) => id) } },
+        data: { deleted_at: null },
+      })
+      await recordActivity(
+        session?.user?.id,
+        properties.map((property) => ({
+          propertyId: property.id,
+          action: 'restore',
+          before: { deleted_at: property.deleted_at?.toISOString() ?? null },
+        })),
+        tx
+      )
+      return properties.length
+    })
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+    revalidatePath('/property-workbench/trash')
+
+    return { success: true, count }
+  } catch (error) {
+    console.error('Error restoring properties:', error)
+    throw new Error('Failed to restore properties')
+  }
+}
+
+/**
+ * Permanently delete properties in the trash and all their related records
+ */
+export async function purgeProperties(ids: number[]) {
+  try {
+    const session = await auth()
+    const count = await purgePropertyRecords(ids, session?.user?.id)
+
+    revalidatePath('/property-workbench/trash')
+
+    return { success: true, count }
+  } catch (error) {
+    console.error('Error purging properties:', error)
+    throw new Error('Failed to permanently delete properties')
+  }
+}
+
+/**
+ * Combine the search box qualifiers with the lead filters
+ */
+function buildSearchWhere(
+  qualifiers: Prisma.PropertyWhereInput | null,
+  filters: PropertyFilters
+): Prisma.PropertyWhereInput | null {
+  const conditions = [
+    qualifiers,
+    countActiveFilters(filters) > 0 ? buildPropertyWhere(filters) : null,
+  ].filter((condition) => condition !== null)
+
+  return conditions.length > 0 ? { AND: conditions } : null
+}
+
+/**
+ * Search properties by address, city, zipcode, agent, phone number, notes or
+ * ID, most relevant first. Adding quotes allows exact matching, and field
+ * qualifiers such as `state:CA price:<500000 -has:notes` narrow the results,
+ * as do the active lead filters
+ */
+export async function searchProperties(
+  query: string,
+  filters: PropertyFilters = {},
+  offset = 0
+): Promise<PropertySearchPage & { error?: string }> {
+  try {
+    const { text, where } = parseSearchQuery(query)
+    return await searchPropertyIndex(text, {
+      where: buildSearchWhere(where, filters),
+      offset,
+    })
+  } catch (error) {
+    // Syntax errors are shown next to the search box
+    if (error instanceof SearchQueryError) {
+      return { results: [], terms: [], nextOffset: null, error: error.message }
     }
+    console.error('Error searching properties:', error)
+    throw new Error('Failed to search properties')
+  }
+}
 
-    // Check if search term is a numeric ID - only for ID-only search
-    const isNumeric = /^\d+$/.test(searchTerm.trim())
+/**
+ * Number of properties a saved search finds right now, or null if its
+ * query no longer parses
+ */
+async function countSavedSearch(query: string, filters: string) {
+  try {
+    const { text, where } = parseSearchQuery(query)
+    const propertyFilters = parsePropertyFilters(new URLSearchParams(filters))
+    return await countPropertyIndex(
+      text,
+      buildSearchWhere(where, propertyFilters)
+    )
+  } catch (error) {
+    if (error instanceof SearchQueryError) return null
+    throw error
+  }
+}
 
-    // Handle ID-only search mode
-    if (idOnly) {
-      // In ID-only mode, only search for numeric IDs
-      if (!isNumeric) {
-        return [] // Return empty if not a number in ID-only mode
-      }
+/**
+ * Get the signed-in user's saved searches and those shared by the rest of
+ * the team, each with a live count
+ */
+export async function getSavedSearches() {
+  try {
+    const session = await auth()
+    const userId = session?.user?.id
+    if (!userId) return []
 
-      const propertyById = await prisma.property.findUnique({
-        where: { id: parseInt(searchTerm.trim()) },
-        select: {
-          id: true,
-          street_address: true,
-          state: true,
-          display_name: true,
-          phone_number: true,
-          created_at: true,
-          updated_at: true,
-          contacted_agent: true,
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: {
+        OR: [{ user_id: userId }, { is_shared: true }],
+      },
+      include: {
+        user: {
+          select: { name: true, email: true },
         },
-      })
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return await Promise.all(
+      savedSearches.map(async ({ user, ...savedSearch }) => ({
+        id: savedSearch.id,
+        name: savedSearch.name,
+        query: savedSearch.query,
+        filters: savedSearch.filters,
+        is_shared: savedSearch.is_shared,
+        isOwn: savedSearch.user_id === userId,
+        ownerName: user.name || user.email,
+        count: await countSavedSearch(savedSearch.query, savedSearch.filters),
+      }))
+    )
+  } catch (error) {
+    console.error('Error fetching saved searches:', error)
+    throw new Error('Failed to fetch saved searches')
+  }
+}
 
-      return propertyById ? [propertyById] : []
+/**
+ * Save the current search box query and lead filters under a name
+ */
+export async function createSavedSearch(data: {
+  name: string
+  query: string
+  filters: PropertyFilters
+  isShared: boolean
+}) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'You must be signed in to save searches' }
+    }
+
+    const name = data.name.trim()
+    if (!name) {
+      return { success: false, error: 'Give the search a name' }
+    }
+    if (!data.query.trim() && countActiveFilters(data.filters) === 0) {
+      return { success: false, error: 'Enter a search or set a filter first' }
     }
 
-    // For non-ID-only mode, continue with normal search
-
-    // Check for exact ID match first (but in normal mode, this is just one option)
-    if (isNumeric) {
-      const exactIdMatch = await prisma.property.findUnique({
-        where: { id: parseInt(searchTerm.trim()) },
-        select: {
-          id: true,
-          street_address: true,
-          state: true,
-          display_name: true,
-          phone_number: true,
-          created_at: true,
-          updated_at: true,
-          contacted_agent: true,
+    // Catch syntax errors now rather than every time the list loads
+    parseSearchQuery(data.query)
+
+    await prisma.savedSearch.create({
+      data: {
+        user_id: session.user.id,
+        name,
+        query: data.query.trim(),
+        filters: applyPropertyFilters(
+          new URLSearchParams(),
+          data.filters
+        ).toString(),
+        is_shared: data.isShared,
+      },
+    })
+
+    revalidatePath('/property-workbench')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error saving search:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Share a saved search with the team, or make it private again
+ */
+export async function setSavedSearchShared(id: number, isShared: boolean) {
+  try {
+    const session = await auth()
+    await prisma.savedSearch.update({
+      where: { id, user_id: session?.user?.id ?? '' },
+      data: { is_shared: isShared },
+    })
+
+    revalidatePath('/property-workbench')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating saved search:', error)
+    throw new Error('Failed to update saved search')
+  }
+}
+
+/**
+ * Delete one of the signed-in user's saved searches
+ */
+export async function deleteSavedSearch(id: number) {
+  try {
+    const session = await auth()
+    await prisma.savedSearch.delete({
+      where: { id, user_id: session?.user?.id ?? '' },
+    })
+
+    revalidatePath('/property-workbench')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting saved search:', error)
+    throw new Error('Failed to delete saved search')
+  }
+}
+
+/**
+ * IDs of the properties a bulk action applies to
+ */
+async function resolveBulkTarget(target: BulkTarget) {
+  switch (target.type) {
+    case 'ids':
+      return target.ids
+    case 'stage': {
+      const properties = await prisma.property.findMany({
+        where: {
+          ...buildPropertyWhere(target.filters),
+          stage: target.stage,
+          deleted_at: null,
         },
+        select: { id: true },
       })
+      return properties.map(({ id }) => id)
+    }
+    case 'search': {
+      const { text, where } = parseSearchQuery(target.query)
+      return getPropertyIndexIds(text, buildSearchWhere(where, target.filters))
+    }
+  }
+}
 
-      // If we found an exact ID match, include it in the results
-      // but still continue with the fuzzy search
-      const fuzzyMatches = await performFuzzySearch(searchTerm)
+/**
+ * Number of properties a bulk action would apply to
+ */
+export async function countBulkTarget(target: BulkTarget) {
+  try {
+    const ids = await resolveBulkTarget(target)
+    return ids.length
+  } catch (error) {
+    console.error('Error counting properties:', error)
+    throw new Error('Failed to count properties')
+  }
+}
 
-      if (exactIdMatch) {
-        // Check if the exact match is already in the fuzzy results
-        const isDuplicate = fuzzyMatches.some((p) => p.id === exactIdMatch.id)
+/**
+ * Move many properties to a pipeline stage at once, recording a transition
+ * for each one that actually moves
+ */
+export async function bulkSetPropertyStage(
+  target: BulkTarget,
+  stage: LeadStage
+) {
+  try {
+    if (!isLeadStage(stage)) {
+      throw new Error(`Unknown stage: ${stage}`)
+    }
+
+    const session = await auth()
+    const ids = await resolveBulkTarget(target)
+
+    const count = await prisma.$transaction(async (tx) => {
+      const properties = await tx.property.findMany({
+        where: { id: { in: ids }, stage: { not: stage }, deleted_at: null },
+        select: { id: true, stage: true },
+      })
 
-        if (!isDuplicate) {
-          // Add the exact ID match at the beginning of results
-          return [exactIdMatch, ...fuzzyMatches]
-        }
+      const changedAt = new Date()
+      await tx.propertyStageTransition.createMany({
+        data: properties.map((property) => ({
+          property_id: property.id,
+          from_stage: property.stage,
+          to_stage: stage,
+          user_id: session?.user?.id,
+          created_at: changedAt,
+        })),
+      })
+      await recordActivity(
+        session?.user?.id,
+        properties.map((property) => ({
+          propertyId: property.id,
+          action: 'stage_change',
+          before: { stage: property.stage },
+          after: { stage },
+        })),
+        tx
+      )
+      if (stage === 'contacted') {
+        await recordAgentContact(
+          tx,
+          properties.map(({ id }) => id),
+          session?.user?.id,
+          changedAt
+        )
       }
+      await recordOutreachReplies(
+        tx,
+        properties.map((property) => ({
+          propertyId: property.id,
+          fromStage: property.stage,
+        })),
+        stage,
+        changedAt
+      )
 
-      return fuzzyMatches
-    }
+      const { count } = await tx.property.updateMany({
+        where: { id: { in: properties.map(({ id }) => id) } },
+        data: { stage, stage_changed_at: changedAt },
+      })
+      return count
+    })
 
-    // Check if the search is for an exact match (enclosed in quotes)
-    const exactMatch = searchTerm.match(/^"(.*)"$/)
-    if (exactMatch) {
-      return performExactSearch(exactMatch[1])
-    }
+    // Revalidate the page
+    revalidatePath('/property-workbench')
 
-    // For standard fuzzy/partial matching
-    return performFuzzySearch(searchTerm)
+    return { success: true, count }
   } catch (error) {
-    console.error('Error searching properties:', error)
-    throw new Error('Failed to search properties')
+    console.error('Error changing stage in bulk:', error)
+    throw new Error('Failed to change the stage of the properties')
   }
 }
 
 /**
- * Helper function to perform exact search with quoted terms
- */
-async function performExactSearch(term: string) {
-  return await prisma.property.findMany({
-    where: {
-      OR: [
-        { street_address: { equals: term, mode: 'insensitive' } },
-        { display_name: { equals: term, mode: 'insensitive' } },
-        { phone_number: { equals: term, mode: 'insensitive' } },
-      ],
-    },
-    select: {
-      id: true,
-      street_address: true,
-      state: true,
-      display_name: true,
-      phone_number: true,
-      created_at: true,
-      updated_at: true,
-      contacted_agent: true,
-    },
-    orderBy: {
-      updated_at: 'desc',
-    },
-    take: 31, // Get one more than we need to check for more results
-  })
+ * Add tags to or remove tags from many properties at once
+ */
+export async function bulkUpdatePropertyTags(
+  target: BulkTarget,
+  changes: { add?: string[]; remove?: string[] }
+) {
+  try {
+    const session = await auth()
+    const ids = await resolveBulkTarget(target)
+    const add = parseTags((changes.add ?? []).join(','))
+    const remove = parseTags((changes.remove ?? []).join(','))
+
+    await prisma.$transaction(async (tx) => {
+      const properties = await tx.property.findMany({
+        where: { id: { in: ids }, deleted_at: null },
+        select: { id: true, tags: true },
+      })
+
+      for (const tag of add) {
+        await tx.$executeRaw`
+          UPDATE "property" SET "tags" = array_append("tags", ${tag})
+          WHERE "id" = ANY(${ids}) AND "deleted_at" IS NULL
+            AND NOT (${tag} = ANY("tags"))
+        `
+      }
+      for (const tag of remove) {
+        await tx.$executeRaw`
+          UPDATE "property" SET "tags" = array_remove("tags", ${tag})
+          WHERE "id" = ANY(${ids}) AND "deleted_at" IS NULL
+        `
+      }
+
+      // Log the properties whose tags actually changed
+      const entries = properties.flatMap((property) => {
+        const tags = [
+          ...property.tags,
+          ...add.filter((tag) => !property.tags.includes(tag)),
+        ].filter((tag) => !remove.includes(tag))
+        const isChanged =
+          tags.length !== property.tags.length ||
+          tags.some((tag, index) => tag !== property.tags[index])
+
+        return isChanged
+          ? [
+              {
+                propertyId: property.id,
+                action: 'tags_update' as const,
+                before: { tags: property.tags },
+                after: { tags },
+              },
+            ]
+          : []
+      })
+      await recordActivity(session?.user?.id, entries, tx)
+    })
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+
+    return { success: true, count: ids.length }
+  } catch (error) {
+    console.error('Error updating tags in bulk:', error)
+    throw new Error('Failed to update the tags of the properties')
+  }
 }
 
 /**
- * Helper function to perform fuzzy search for partial matches
- */
-async function performFuzzySearch(searchTerm: string) {
-  const term = searchTerm.trim()
-
-  return await prisma.property.findMany({
-    where: {
-      OR: [
-        { street_address: { contains: term, mode: 'insensitive' } },
-        { display_name: { contains: term, mode: 'insensitive' } },
-        { phone_number: { contains: term, mode: 'insensitive' } },
-      ],
-    },
-    select: {
-      id: true,
-      street_address: true,
-      state: true,
-      display_name: true,
-      phone_number: true,
-      created_at: true,
-      updated_at: true,
-      contacted_agent: true,
-    },
-    orderBy: {
-      updated_at: 'desc',
-    },
-    take: 31, // Get one more than we need to check for more results
-  })
+ * Move many properties to the trash. The IDs that were moved are returned
+ * so the deletion can be undone.
+ */
+export async function deleteProperties(target: BulkTarget) {
+  try {
+    const ids = await trashPropertyRecords(await resolveBulkTarget(target))
+
+    // Revalidate the page
+    revalidatePath('/property-workbench')
+    revalidatePath('/property-workbench/trash')
+
+    return { success: true, count: ids.length, ids }
+  } catch (error) {
+    console.error('Error deleting properties:', error)
+    throw new Error('Failed to delete properties')
+  }
+}
+
+/**
+ * Export properties as CSV
+ */
+export async function exportProperties(target: BulkTarget) {
+  try {
+    const ids = await resolveBulkTarget(target)
+    const properties = await prisma.property.findMany({
+      where: { id: { in: ids }, deleted_at: null },
+      include: {
+        notes: {
+          select: { body: true },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+    })
+
+    return {
+      fileName: `properties-${new Date().toISOString().slice(0, 10)}.csv`,
+      csv: buildPropertyCsv(
+        properties.map((property) => ({
+          ...property,
+          notes: property.notes.map((note) => note.body).join('\n\n'),
+        }))
+      ),
+      count: properties.length,
+    }
+  } catch (error) {
+    console.error('Error exporting properties:', error)
+    throw new Error('Failed to export properties')
+  }
 }
@@ -0,0 +1,182 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getAgentById } from '../actions'
+import { getLeadStage } from '@/lib/lead-stages'
+import { parseId } from '@/lib/utils'
+
+export default async function AgentPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const agentId = parseId(id)
+  const agent = agentId ? await getAgentById(agentId) : null
+
+  if (!agent) {
+    notFound()
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 text-gray-800">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">
+          {agent.display_name || `Agent #${agent.id}`}
+        </h1>
+        <Link href="/property-workbench" className="hover:underline">
+          Back to Property Workbench
+        </Link>
+      </div>
+
+      <div className="mb-6 border rounded-lg p-4 bg-white shadow flex gap-6">
+        {agent.photo_url && (
+          <img
+            src={agent.photo_url}
+            alt={agent.display_name || 'Agent'}
+            className="w-28 h-28 object-cover border rounded-md"
+          />
+        )}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
+          <p className="font-medium">Business Name</p>
+          <p>{agent.business_name || '-'}</p>
+          <p className="font-medium">Phone</p>
+          <p>{agent.phone_number || '-'}</p>
+          <p className="font-medium">Email</p>
+          <p>{agent.email || '-'}</p>
+          <p className="font-medium">Agent Type</p>
+          <p>{agent.agent_badge_type || '-'}</p>
+          <p className="font-medium">Profile URL</p>
+          <p>
+            {agent.profile_url ? (
+              <a
+                href={`https://zillow.com${agent.profile_url}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-500 hover:underline"
+              >
+                https://zillow.com{agent.profile_url}
+              </a>
+            ) : (
+              '-'
+            )}
+          </p>
+          <p className="font-medium">Last contacted</p>
+          <p>
+            {agent.last_contacted_at
+              ? `${agent.last_contacted_at.toLocaleString()}${
+                  agent.last_contacted_by
+                    ? ` by ${agent.last_contacted_by.name || agent.last_contacted_by.email}`
+                    : ''
+                }`
+              : 'Never'}
+          </p>
+        </div>
+      </div>
+
+      <h2 className="text-xl font-semibold mb-2">
+        Properties ({agent.properties.length})
+      </h2>
+      {agent.properties.length > 0 ? (
+        <div className="mb-6 border rounded-lg bg-white shadow overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">Address</th>
+                <th className="p-2 text-left">City</th>
+                <th className="p-2 text-left">Price</th>
+                <th className="p-2 text-left">Stage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {agent.properties.map((property) => (
+                <tr key={property.id} className="border-b hover:bg-gray-50">
+                  <td className="p-2">
+                    <Link
+                      href={`/property-workbench/${property.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {property.street_address || `#${property.id}`}
+                    </Link>
+                  </td>
+                  <td className="p-2">
+                    {[property.city, property.state].filter(Boolean).join(', ')}
+                  </td>
+                  <td className="p-2">
+                    {property.price !== null
+                      ? `$${property.price.toLocaleString()}`
+                      : '-'}
+                  </td>
+                  <td className="p-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        getLeadStage(property.stage).badgeClass
+                      }`}
+                    >
+                      {getLeadStage(property.stage).label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mb-6 text-gray-500">No properties</p>
+      )}
+
+      <h2 className="text-xl font-semibold mb-2">Emails</h2>
+      {agent.outreach_emails.length > 0 ? (
+        <ul className="mb-6 border rounded-lg bg-white shadow divide-y text-sm">
+          {agent.outreach_emails.map((email) => (
+            <li key={email.id} className="p-2">
+              <span className="font-medium">{email.subject}</span> to{' '}
+              {email.to_email} about{' '}
+              <Link
+                href={`/property-workbench/${email.property_id}`}
+                className="text-blue-600 hover:underline"
+              >
+                {email.property.street_address || `#${email.property_id}`}
+              </Link>
+              <span className="text-gray-500">
+                {' '}
+                {email.sent_at.toLocaleString()}
+                {email.sender &&
+                  ` by ${email.sender.name || email.sender.email}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-6 text-gray-500">No emails sent yet</p>
+      )}
+
+      <h2 className="text-xl font-semibold mb-2">Pipeline</h2>
+      {agent.outreach.length > 0 ? (
+        <ul className="border rounded-lg bg-white shadow divide-y text-sm">
+          {agent.outreach.map((transition) => (
+            <li key={transition.id} className="p-2">
+              <span className="font-medium">
+                {getLeadStage(transition.to_stage).label}
+              </span>{' '}
+              <Link
+                href={`/property-workbench/${transition.property_id}`}
+                className="text-blue-600 hover:underline"
+              >
+                {transition.property.street_address ||
+                  `#${transition.property_id}`}
+              </Link>
+              <span className="text-gray-500">
+                {' '}
+                {transition.created_at.toLocaleString()}
+                {transition.user &&
+                  ` by ${transition.user.name || transition.user.email}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">No leads have reached the contacted stage</p>
+      )}
+    </div>
+  )
+}
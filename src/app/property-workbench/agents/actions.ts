@@ -0,0 +1,76 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { LEAD_STAGE_IDS } from '@/lib/lead-stages'
+
+// Stages a lead only reaches once the agent has been contacted
+const OUTREACH_STAGES = LEAD_STAGE_IDS.slice(
+  LEAD_STAGE_IDS.indexOf('contacted')
+)
+
+/**
+ * Get an agent with all of their properties that are not in the trash and
+ * the outreach to them: the emails sent and the stages their leads
+ * reached, newest first
+ */
+export async function getAgentById(id: number) {
+  try {
+    const agent = await prisma.agent.findUnique({
+      where: { id },
+      include: {
+        last_contacted_by: {
+          select: { name: true, email: true },
+        },
+        properties: {
+          where: { deleted_at: null },
+          select: {
+            id: true,
+            street_address: true,
+            city: true,
+            state: true,
+            price: true,
+            stage: true,
+            stage_changed_at: true,
+          },
+          orderBy: { created_at: 'desc' },
+        },
+        outreach_emails: {
+          include: {
+            sender: {
+              select: { name: true, email: true },
+            },
+            property: {
+              select: { street_address: true },
+            },
+          },
+          orderBy: { sent_at: 'desc' },
+        },
+      },
+    })
+
+    if (!agent) {
+      return null
+    }
+
+    const outreach = await prisma.propertyStageTransition.findMany({
+      where: {
+        to_stage: { in: OUTREACH_STAGES },
+        property: { agent_id: id, deleted_at: null },
+      },
+      include: {
+        user: {
+          select: { name: true, email: true },
+        },
+        property: {
+          select: { street_address: true },
+        },
+      },
+      orderBy: { created_at: 'desc' },
+    })
+
+    return { ...agent, outreach }
+  } catch (error) {
+    console.error('Error fetching agent:', error)
+    throw new Error('Failed to fetch agent')
+  }
+}
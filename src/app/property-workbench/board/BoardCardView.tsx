@@ -0,0 +1,74 @@
+import Link from 'next/link'
+import { BoardCard } from '../types'
+import PriceDropBadge from '../PriceDropBadge'
+import { getS3ImageUrl } from '@/lib/utils'
+
+interface BoardCardViewProps {
+  card: BoardCard
+  onDragStart: () => void
+}
+
+export default function BoardCardView({
+  card,
+  onDragStart,
+}: BoardCardViewProps) {
+  const thumbnail = card.generated_images[0]
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move'
+        onDragStart()
+      }}
+      className="flex gap-2 p-2 bg-white border rounded shadow-sm cursor-grab active:cursor-grabbing text-gray-800"
+    >
+      <div className="w-16 h-16 shrink-0">
+        {thumbnail ? (
+          <img
+            src={getS3ImageUrl(thumbnail.image_url)}
+            alt="Generated property"
+            className="w-full h-full object-cover rounded"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center bg-gray-100 rounded">
+            <span className="text-gray-400 text-xs text-center">No Image</span>
+          </div>
+        )}
+      </div>
+      <div className="min-w-0 text-sm">
+        <Link
+          href={`/property-workbench/${card.id}`}
+          draggable={false}
+          className="block font-medium truncate hover:underline"
+        >
+          {card.street_address || (
+            <span className="text-gray-400">No Address</span>
+          )}
+        </Link>
+        {(card.city || card.state) && (
+          <p className="text-xs text-gray-500 truncate">
+            {[card.city, card.state].filter(Boolean).join(', ')}
+          </p>
+        )}
+        {card.display_name && (
+          <p className="text-xs text-gray-600 truncate">
+            Agent: {card.display_name}
+          </p>
+        )}
+        <p className="text-xs">
+          {card.price ? `$${card.price.toLocaleString()}` : 'No price'}
+          <PriceDropBadge
+            price={card.price}
+            previous_price={card.previous_price}
+          />
+        </p>
+        {card.days_on_zillow !== null && (
+          <p className="text-xs text-gray-500">
+            {card.days_on_zillow} days on Zillow
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
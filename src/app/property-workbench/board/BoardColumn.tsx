@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { BoardColumnState } from '../types'
+import BoardCardView from './BoardCardView'
+import { LEAD_STAGES, LeadStage } from '@/lib/lead-stages'
+
+interface BoardColumnProps {
+  stage: LeadStage
+  column: BoardColumnState
+  isLoadingMore: boolean
+  isDropTarget: boolean
+  onLoadMore: (stage: LeadStage) => void
+  onCardDragStart: (cardId: number, stage: LeadStage) => void
+  onDragEnter: (stage: LeadStage) => void
+  onDrop: (stage: LeadStage) => void
+}
+
+export default function BoardColumn({
+  stage,
+  column,
+  isLoadingMore,
+  isDropTarget,
+  onLoadMore,
+  onCardDragStart,
+  onDragEnter,
+  onDrop,
+}: BoardColumnProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const hasMore = column.nextCursor !== null
+
+  // Load the next page when the bottom of the column scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || isLoadingMore) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        onLoadMore(stage)
+      }
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [stage, hasMore, isLoadingMore, onLoadMore])
+
+  return (
+    <div
+      className={`flex flex-col w-72 shrink-0 rounded-lg border bg-gray-50 ${
+        isDropTarget ? 'ring-2 ring-blue-400' : ''
+      }`}
+      onDragOver={(e) => e.preventDefault()}
+      onDragEnter={() => onDragEnter(stage)}
+      onDrop={(e) => {
+        e.preventDefault()
+        onDrop(stage)
+      }}
+    >
+      <div className="flex justify-between items-center p-3 border-b">
+        <span
+          className={`px-2 py-1 rounded-full text-xs font-medium ${LEAD_STAGES[stage].badgeClass}`}
+        >
+          {LEAD_STAGES[stage].label}
+        </span>
+        <span className="text-sm text-gray-500">{column.total}</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-2 h-[calc(100vh-14rem)]">
+        {column.cards.map((card) => (
+          <BoardCardView
+            key={card.id}
+            card={card}
+            onDragStart={() => onCardDragStart(card.id, stage)}
+          />
+        ))}
+
+        {column.cards.length === 0 && !hasMore && (
+          <p className="text-sm text-gray-400 text-center py-4">No leads</p>
+        )}
+
+        <div ref={sentinelRef} className="h-1" />
+        {isLoadingMore && (
+          <div className="flex justify-center py-2">
+            <div className="inline-block animate-spin rounded-full h-5 w-5 border-2 border-solid border-blue-500 border-r-transparent"></div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
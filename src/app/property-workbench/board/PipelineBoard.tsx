@@ -0,0 +1,153 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import { getBoardCards, setPropertyStage } from '../actions'
+import { BoardCard, BoardColumnState } from '../types'
+import BoardColumn from './BoardColumn'
+import { LEAD_STAGES, LEAD_STAGE_IDS, LeadStage } from '@/lib/lead-stages'
+
+type BoardColumns = Record<LeadStage, BoardColumnState>
+
+interface PipelineBoardProps {
+  initialColumns: BoardColumns
+}
+
+/**
+ * Move a card between columns, inserting it at `index` in the target column
+ */
+function moveCard(
+  columns: BoardColumns,
+  card: BoardCard,
+  from: LeadStage,
+  to: LeadStage,
+  index: number
+): BoardColumns {
+  const targetCards = columns[to].cards.filter((item) => item.id !== card.id)
+  targetCards.splice(index, 0, { ...card, stage: to })
+
+  return {
+    ...columns,
+    [from]: {
+      ...columns[from],
+      cards: columns[from].cards.filter((item) => item.id !== card.id),
+      total: columns[from].total - 1,
+    },
+    [to]: {
+      ...columns[to],
+      cards: targetCards,
+      total: columns[to].total + 1,
+    },
+  }
+}
+
+export default function PipelineBoard({ initialColumns }: PipelineBoardProps) {
+  const [columns, setColumns] = useState<BoardColumns>(initialColumns)
+  const [loadingStages, setLoadingStages] = useState<LeadStage[]>([])
+  const [dropTarget, setDropTarget] = useState<LeadStage | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const draggedRef = useRef<{ cardId: number; stage: LeadStage } | null>(null)
+
+  const handleLoadMore = useCallback(
+    async (stage: LeadStage) => {
+      const cursor = columns[stage].nextCursor
+      if (cursor === null || loadingStages.includes(stage)) return
+
+      setLoadingStages((current) => [...current, stage])
+      try {
+        const page = await getBoardCards(stage, cursor)
+        setColumns((current) => {
+          // Cards moved into this column while loading are already shown
+          const shown = new Set(current[stage].cards.map((card) => card.id))
+          return {
+            ...current,
+            [stage]: {
+              ...current[stage],
+              cards: [
+                ...current[stage].cards,
+                ...page.cards.filter((card) => !shown.has(card.id)),
+              ],
+              nextCursor: page.nextCursor,
+            },
+          }
+        })
+      } catch (error) {
+        console.error('Error loading board cards:', error)
+        setErrorMessage(
+          `Could not load more ${LEAD_STAGES[stage].label.toLowerCase()} leads`
+        )
+      } finally {
+        setLoadingStages((current) => current.filter((item) => item !== stage))
+      }
+    },
+    [columns, loadingStages]
+  )
+
+  const handleCardDragStart = (cardId: number, stage: LeadStage) => {
+    draggedRef.current = { cardId, stage }
+    setErrorMessage(null)
+  }
+
+  // Move the card straight away and put it back if saving fails
+  const handleDrop = async (to: LeadStage) => {
+    const dragged = draggedRef.current
+    draggedRef.current = null
+    setDropTarget(null)
+    if (!dragged || dragged.stage === to) return
+
+    const from = dragged.stage
+    const fromIndex = columns[from].cards.findIndex(
+      (card) => card.id === dragged.cardId
+    )
+    const card = columns[from].cards[fromIndex]
+    if (!card) return
+
+    setColumns((current) => moveCard(current, card, from, to, 0))
+
+    try {
+      await setPropertyStage(card.id, to)
+    } catch (error) {
+      console.error('Error moving card:', error)
+      setColumns((current) => moveCard(current, card, to, from, fromIndex))
+      setErrorMessage(
+        `Could not move '${card.street_address || 'property'}' to ${
+          LEAD_STAGES[to].label
+        }. It has been put back.`
+      )
+    }
+  }
+
+  return (
+    <div>
+      {errorMessage && (
+        <div className="mb-4 p-3 rounded border border-red-300 bg-red-50 text-red-700 text-sm flex justify-between">
+          <span>{errorMessage}</span>
+          <button
+            onClick={() => setErrorMessage(null)}
+            className="hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div
+        className="flex gap-4 overflow-x-auto pb-4"
+        onDragEnd={() => setDropTarget(null)}
+      >
+        {LEAD_STAGE_IDS.map((stage) => (
+          <BoardColumn
+            key={stage}
+            stage={stage}
+            column={columns[stage]}
+            isLoadingMore={loadingStages.includes(stage)}
+            isDropTarget={dropTarget === stage}
+            onLoadMore={handleLoadMore}
+            onCardDragStart={handleCardDragStart}
+            onDragEnter={setDropTarget}
+            onDrop={handleDrop}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import Link from 'next/link'
+import { getBoardCards, getStageCounts } from '../actions'
+import { BoardColumnState } from '../types'
+import PipelineBoard from './PipelineBoard'
+import { LEAD_STAGE_IDS, LeadStage } from '@/lib/lead-stages'
+
+export default async function PipelineBoardPage() {
+  const counts = await getStageCounts()
+  const pages = await Promise.all(
+    LEAD_STAGE_IDS.map((stage) => getBoardCards(stage))
+  )
+  const columns = Object.fromEntries(
+    LEAD_STAGE_IDS.map((stage, i) => [
+      stage,
+      { ...pages[i], total: counts[stage] },
+    ])
+  ) as Record<LeadStage, BoardColumnState>
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-4xl font-bold">PIPELINE BOARD</h1>
+        <Link href="/property-workbench" className="hover:underline">
+          Back to Property Workbench
+        </Link>
+      </div>
+      <PipelineBoard initialColumns={columns} />
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import {
+  getFilterOptions,
+  getLeadsByStage,
+  getPropertyById,
+  getSavedSearches,
+  getStageCounts,
+  getTeammates,
+} from './actions'
+import { getOutreachTemplates } from './templates/actions'
+import { auth } from '@/auth'
+import { isLeadStage } from '@/lib/lead-stages'
+import { parsePropertyFilters } from '@/lib/property-filters'
+
+export type WorkbenchSearchParams = Record<
+  string,
+  string | string[] | undefined
+>
+
+/**
+ * Load everything the workbench renders on the server: the selected
+ * property (if any), the first page of the filtered lead list, the saved
+ * searches, the teammates who can be mentioned in notes, and the outreach
+ * templates with the name emails are signed with
+ */
+export async function loadWorkbench(
+  params: WorkbenchSearchParams,
+  propertyId?: number
+) {
+  const filters = parsePropertyFilters(params)
+  const stageParam = typeof params.stage === 'string' ? params.stage : ''
+  const activeStage = isLeadStage(stageParam) ? stageParam : 'new'
+  // Search box query, set when opening a saved search
+  const searchQuery = typeof params.q === 'string' ? params.q : ''
+
+  const [
+    initialProperty,
+    leadPage,
+    stageCounts,
+    filterOptions,
+    savedSearches,
+    teammates,
+    outreachTemplates,
+    session,
+  ] = await Promise.all([
+    propertyId ? getPropertyById(propertyId) : null,
+    getLeadsByStage(activeStage, filters),
+    getStageCounts(filters),
+    getFilterOptions(),
+    getSavedSearches(),
+    getTeammates(),
+    getOutreachTemplates(),
+    auth(),
+  ])
+
+  return {
+    initialProperty,
+    leadPage,
+    stageCounts,
+    activeStage,
+    filters,
+    filterOptions,
+    savedSearches,
+    searchQuery,
+    teammates,
+    outreachTemplates,
+    senderName: session?.user?.name ?? null,
+  }
+}
@@ -1,21 +1,12 @@
-import {
-  getNewLeads,
-  getPropertyById,
-  getRecentlyContactedProperties,
-} from './actions'
+import { WorkbenchSearchParams, loadWorkbench } from './load-workbench'
 import PropertyWorkbenchClient from './PropertyWorkbenchClient'
 
-export default async function PropertyWorkbenchPage() {
-  // Default to the first property for initial load
-  const initialProperty = await getPropertyById(1)
-  const newLeads = await getNewLeads()
-  const recentlyContactedProperties = await getRecentlyContactedProperties()
+export default async function PropertyWorkbenchPage({
+  searchParams,
+}: {
+  searchParams: Promise<WorkbenchSearchParams>
+}) {
+  const workbench = await loadWorkbench(await searchParams)
 
-  return (
-    <PropertyWorkbenchClient
-      initialProperty={initialProperty}
-      newLeads={newLeads}
-      recentlyContactedProperties={recentlyContactedProperties}
-    />
-  )
+  return <PropertyWorkbenchClient {...workbench} />
 }
@@ -0,0 +1,539 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { GeneratedImage, UnstagedImage } from '@prisma/client'
+import {
+  addTemplateVariant,
+  createTemplate,
+  renameTemplate,
+  saveTemplateVariant,
+  setTemplateArchived,
+  setTemplateVariantActive,
+} from './actions'
+import { TemplateLibraryEntry, TemplateVariantWithStats } from '../types'
+import {
+  MAX_TEMPLATE_VARIANTS,
+  MERGE_FIELDS,
+  MergeProperty,
+  buildOutreachHtml,
+  findUnknownMergeFields,
+  getMergeValues,
+  renderTemplate,
+} from '@/lib/outreach'
+import { getS3ImageUrl } from '@/lib/utils'
+
+type PreviewProperty = MergeProperty & {
+  id: number
+  unstaged_images: UnstagedImage[]
+  generated_images: GeneratedImage[]
+}
+
+interface TemplateLibraryProps {
+  templates: TemplateLibraryEntry[]
+  selectedTemplate: TemplateLibraryEntry | null
+  previewProperty: PreviewProperty | null
+  // Property id from the URL, which may not match a property
+  requestedPropertyId: number | null
+  senderName: string | null
+}
+
+function formatReplyRate(sends: number, replies: number) {
+  return sends > 0 ? `${Math.round((replies / sends) * 100)}%` : '-'
+}
+
+/**
+ * Manage outreach templates: their wording, version history and A/B
+ * variants, previewed against a real property
+ */
+export default function TemplateLibrary({
+  templates,
+  selectedTemplate,
+  previewProperty,
+  requestedPropertyId,
+  senderName,
+}: TemplateLibraryProps) {
+  const router = useRouter()
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  // Keep the preview property when switching templates
+  const templateHref = (templateId: number) => {
+    const params = new URLSearchParams({ template: String(templateId) })
+    if (requestedPropertyId) {
+      params.set('property', String(requestedPropertyId))
+    }
+    return `?${params.toString()}`
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setErrorMessage(null)
+    try {
+      const { id } = await createTemplate(newName)
+      setNewName('')
+      router.push(templateHref(id))
+    } catch (error) {
+      console.error('Failed to create template:', error)
+      setErrorMessage('Failed to create template')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-4 gap-4 text-gray-800">
+      <div className="space-y-3">
+        <div className="border rounded-lg bg-white shadow">
+          {templates.length > 0 ? (
+            <ul className="divide-y text-sm">
+              {templates.map((template) => (
+                <li key={template.id}>
+                  <Link
+                    href={templateHref(template.id)}
+                    className={`block p-2 hover:bg-gray-50 ${
+                      template.id === selectedTemplate?.id
+                        ? 'font-semibold bg-blue-50'
+                        : ''
+                    } ${template.archived_at ? 'text-gray-400' : ''}`}
+                  >
+                    {template.name}
+                    {template.archived_at && ' (archived)'}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="p-4 text-sm text-gray-500">No templates yet</p>
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2 text-sm">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New template name"
+            className="flex-1 min-w-0 p-1 border rounded"
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newName.trim()}
+            className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400"
+          >
+            Create
+          </button>
+        </form>
+        {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+
+        <div className="border rounded-lg p-3 bg-white shadow text-xs">
+          <p className="font-medium mb-1">Merge fields</p>
+          <ul className="space-y-1">
+            {Object.entries(MERGE_FIELDS).map(([field, description]) => (
+              <li key={field}>
+                <code className="text-blue-700">{`{{${field}}}`}</code>{' '}
+                <span className="text-gray-500">{description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="col-span-3">
+        {selectedTemplate ? (
+          <TemplateEditor
+            key={selectedTemplate.id}
+            template={selectedTemplate}
+            previewProperty={previewProperty}
+            requestedPropertyId={requestedPropertyId}
+            senderName={senderName}
+          />
+        ) : (
+          <div className="border rounded-lg p-8 bg-white shadow text-center text-gray-500">
+            Create a template to start writing outreach emails
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface TemplateEditorProps {
+  template: TemplateLibraryEntry
+  previewProperty: PreviewProperty | null
+  requestedPropertyId: number | null
+  senderName: string | null
+}
+
+function TemplateEditor({
+  template,
+  previewProperty,
+  requestedPropertyId,
+  senderName,
+}: TemplateEditorProps) {
+  const [name, setName] = useState(template.name)
+  const [variantId, setVariantId] = useState(template.variants[0]?.id ?? null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const variant =
+    template.variants.find((other) => other.id === variantId) ??
+    template.variants[0]
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsWorking(true)
+    setErrorMessage(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      setErrorMessage(failure)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleAddVariant = () =>
+    runAction(async () => {
+      const { id } = await addTemplateVariant(template.id, variant.id)
+      setVariantId(id)
+    }, 'Failed to add variant')
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg p-4 bg-white shadow flex items-center gap-2 text-sm">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 p-1 border rounded text-lg font-semibold"
+        />
+        <button
+          onClick={() =>
+            runAction(
+              () => renameTemplate(template.id, name),
+              'Failed to rename template'
+            )
+          }
+          disabled={isWorking || !name.trim() || name === template.name}
+          className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:text-gray-400"
+        >
+          Rename
+        </button>
+        <button
+          onClick={() =>
+            runAction(
+              () => setTemplateArchived(template.id, !template.archived_at),
+              'Failed to archive template'
+            )
+          }
+          disabled={isWorking}
+          className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+        >
+          {template.archived_at ? 'Unarchive' : 'Archive'}
+        </button>
+      </div>
+      {template.archived_at && (
+        <p className="text-sm text-gray-600">
+          Archived on {template.archived_at.toLocaleDateString()}. It is not
+          offered when sending emails.
+        </p>
+      )}
+      {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+
+      <div className="border rounded-lg bg-white shadow">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-2 text-left">Variant</th>
+              <th className="p-2 text-left">Status</th>
+              <th className="p-2 text-left">Version</th>
+              <th className="p-2 text-left">Sends</th>
+              <th className="p-2 text-left">Replies</th>
+              <th className="p-2 text-left">Reply rate</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {template.variants.map((other) => (
+              <tr
+                key={other.id}
+                onClick={() => setVariantId(other.id)}
+                className={`border-b cursor-pointer ${
+                  other.id === variant?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <td className="p-2 font-medium">{other.label}</td>
+                <td className="p-2">
+                  {other.is_active ? (
+                    'Active'
+                  ) : (
+                    <span className="text-gray-400">Paused</span>
+                  )}
+                </td>
+                <td className="p-2">v{other.versions[0]?.version ?? 0}</td>
+                <td className="p-2">{other.sends}</td>
+                <td className="p-2">{other.replies}</td>
+                <td className="p-2">
+                  {formatReplyRate(other.sends, other.replies)}
+                </td>
+                <td className="p-2 text-right">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      runAction(
+                        () =>
+                          setTemplateVariantActive(other.id, !other.is_active),
+                        'Failed to update variant'
+                      )
+                    }}
+                    disabled={isWorking}
+                    className="text-blue-600 hover:underline disabled:text-gray-400"
+                  >
+                    {other.is_active ? 'Pause' : 'Resume'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="p-2 flex justify-between items-center text-xs text-gray-500">
+          <span>
+            Each email picks one of the active variants at random. Replies are
+            counted when a lead moves to the replied stage or later.
+          </span>
+          {variant && template.variants.length < MAX_TEMPLATE_VARIANTS && (
+            <button
+              onClick={handleAddVariant}
+              disabled={isWorking}
+              className="px-3 py-1 rounded text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:text-gray-400"
+            >
+              Add variant from {variant.label}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {variant && (
+        <VariantEditor
+          // Start over from the saved wording once a version is added
+          key={`${variant.id}-${variant.versions[0]?.id}`}
+          variant={variant}
+          previewProperty={previewProperty}
+          requestedPropertyId={requestedPropertyId}
+          senderName={senderName}
+        />
+      )}
+    </div>
+  )
+}
+
+interface VariantEditorProps {
+  variant: TemplateVariantWithStats
+  previewProperty: PreviewProperty | null
+  requestedPropertyId: number | null
+  senderName: string | null
+}
+
+function VariantEditor({
+  variant,
+  previewProperty,
+  requestedPropertyId,
+  senderName,
+}: VariantEditorProps) {
+  const latest = variant.versions[0]
+  const [draft, setDraft] = useState({
+    subject: latest?.subject ?? '',
+    body: latest?.body ?? '',
+  })
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [expandedVersionId, setExpandedVersionId] = useState<number | null>(
+    null
+  )
+
+  const unknownFields = findUnknownMergeFields(
+    `${draft.subject}\n${draft.body}`
+  )
+  const isChanged =
+    draft.subject !== latest?.subject || draft.body !== latest?.body
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setErrorMessage(null)
+    try {
+      await saveTemplateVariant(variant.id, draft)
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      setErrorMessage('Failed to save template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const mergeValues = previewProperty
+    ? getMergeValues(previewProperty, senderName)
+    : null
+  const previewHtml =
+    previewProperty && mergeValues
+      ? buildOutreachHtml(renderTemplate(draft.body, mergeValues), {
+          before: previewProperty.unstaged_images.map(
+            (image) => image.unstaged_images
+          ),
+          after: previewProperty.generated_images.map((image) =>
+            getS3ImageUrl(image.image_url)
+          ),
+        })
+      : null
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <div className="space-y-3">
+        <div className="border rounded-lg p-4 bg-white shadow space-y-3">
+          <h2 className="text-lg font-semibold">Variant {variant.label}</h2>
+          <label className="flex flex-col">
+            <span className="font-medium">Subject</span>
+            <input
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              className="mt-1 p-1 border rounded"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="font-medium">Body</span>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              className="mt-1 p-2 h-64 border rounded font-mono text-xs"
+            />
+          </label>
+          {unknownFields.length > 0 && (
+            <p className="text-red-600">
+              Unknown merge fields:{' '}
+              {unknownFields.map((field) => `{{${field}}}`).join(', ')}
+            </p>
+          )}
+          {errorMessage && <p className="text-red-600">{errorMessage}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() =>
+                setDraft({
+                  subject: latest?.subject ?? '',
+                  body: latest?.body ?? '',
+                })
+              }
+              disabled={isSaving || !isChanged}
+              className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:text-gray-400"
+            >
+              Discard changes
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={
+                isSaving ||
+                !isChanged ||
+                !draft.subject.trim() ||
+                !draft.body.trim() ||
+                unknownFields.length > 0
+              }
+              className="px-3 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400"
+            >
+              {isSaving ? 'Saving...' : 'Save as new version'}
+            </button>
+          </div>
+        </div>
+
+        <div className="border rounded-lg bg-white shadow">
+          <p className="p-2 font-medium border-b">Versions</p>
+          <ul className="divide-y">
+            {variant.versions.map((version) => (
+              <li key={version.id} className="p-2">
+                <button
+                  onClick={() =>
+                    setExpandedVersionId(
+                      expandedVersionId === version.id ? null : version.id
+                    )
+                  }
+                  className="w-full flex justify-between text-left hover:underline"
+                >
+                  <span>
+                    <span className="font-medium">v{version.version}</span>{' '}
+                    <span className="text-gray-500">
+                      {version.created_at.toLocaleString()}
+                      {version.author &&
+                        ` by ${version.author.name || version.author.email}`}
+                    </span>
+                  </span>
+                  <span className="text-gray-600">
+                    {version.sends} sent, {version.replies} replied (
+                    {formatReplyRate(version.sends, version.replies)})
+                  </span>
+                </button>
+                {expandedVersionId === version.id && (
+                  <div className="mt-2 p-2 rounded bg-gray-50 text-xs">
+                    <p className="font-medium">{version.subject}</p>
+                    <p className="mt-1 whitespace-pre-wrap">{version.body}</p>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="border rounded-lg p-4 bg-white shadow space-y-3">
+        <div className="flex justify-between items-end gap-2">
+          <h2 className="text-lg font-semibold">Preview</h2>
+          <form className="flex items-end gap-2">
+            <input type="hidden" name="template" value={variant.template_id} />
+            <label className="flex flex-col">
+              <span className="text-xs text-gray-500">Property ID</span>
+              <input
+                name="property"
+                type="number"
+                defaultValue={previewProperty?.id ?? requestedPropertyId ?? ''}
+                className="w-24 p-1 border rounded"
+              />
+            </label>
+            <button
+              type="submit"
+              className="px-3 py-1 rounded text-gray-700 bg-gray-200 hover:bg-gray-300"
+            >
+              Preview
+            </button>
+          </form>
+        </div>
+        {previewProperty && mergeValues && previewHtml ? (
+          <>
+            <p className="text-xs text-gray-500">
+              Using{' '}
+              <Link
+                href={`/property-workbench/${previewProperty.id}`}
+                className="text-blue-600 hover:underline"
+              >
+                {previewProperty.street_address || `#${previewProperty.id}`}
+              </Link>
+            </p>
+            <p>
+              <span className="font-medium">Subject:</span>{' '}
+              {renderTemplate(draft.subject, mergeValues)}
+            </p>
+            <iframe
+              title="Template preview"
+              srcDoc={previewHtml}
+              sandbox=""
+              className="w-full h-[32rem] border rounded bg-white"
+            />
+          </>
+        ) : (
+          <p className="text-gray-500">
+            {requestedPropertyId
+              ? `Property #${requestedPropertyId} not found`
+              : 'No properties to preview with'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,377 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { MAX_TEMPLATE_VARIANTS, findUnknownMergeFields } from '@/lib/outreach'
+import { OutreachTemplateOption, TemplateLibraryEntry } from '../types'
+
+const NEW_TEMPLATE_SUBJECT = 'Staged photos for {{street_address}}'
+const NEW_TEMPLATE_BODY = `Hi {{agent_first_name}},
+
+{{sender_name}}`
+
+function revalidateTemplates() {
+  revalidatePath('/property-workbench/templates')
+  // The outreach panel lists the templates
+  revalidatePath('/property-workbench')
+}
+
+/**
+ * Throws when a template uses merge fields that do not exist
+ */
+function validateTemplate(subject: string, body: string) {
+  if (!subject.trim() || !body.trim()) {
+    throw new Error('Template subject and body are required')
+  }
+  const unknownFields = findUnknownMergeFields(`${subject}\n${body}`)
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown merge fields: ${unknownFields.join(', ')}`)
+  }
+}
+
+/**
+ * Templates that can be sent, with the latest version of each of their
+ * active variants
+ */
+export async function getOutreachTemplates(): Promise<
+  OutreachTemplateOption[]
+> {
+  try {
+    const templates = await prisma.outreachTemplate.findMany({
+      where: { archived_at: null },
+      include: {
+        variants: {
+          where: { is_active: true },
+          include: {
+            versions: {
+              orderBy: { version: 'desc' },
+              take: 1,
+            },
+          },
+          orderBy: { label: 'asc' },
+        },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return templates
+      .map((template) => ({
+        id: template.id,
+        name: template.name,
+        variants: template.variants.flatMap((variant) =>
+          variant.versions.map((version) => ({
+            id: variant.id,
+            label: variant.label,
+            version,
+          }))
+        ),
+      }))
+      .filter((template) => template.variants.length > 0)
+  } catch (error) {
+    console.error('Error fetching outreach templates:', error)
+    throw new Error('Failed to fetch outreach templates')
+  }
+}
+
+/**
+ * Every template with the full version history of its variants and how
+ * many emails each version sent and got replies to
+ */
+export async function getTemplateLibrary(): Promise<TemplateLibraryEntry[]> {
+  try {
+    const [templates, stats] = await Promise.all([
+      prisma.outreachTemplate.findMany({
+        include: {
+          variants: {
+            include: {
+              versions: {
+                include: {
+                  author: {
+                    select: { name: true, email: true },
+                  },
+                },
+                orderBy: { version: 'desc' },
+              },
+            },
+            orderBy: { label: 'asc' },
+          },
+        },
+        // Archived templates last
+        orderBy: [
+          { archived_at: { sort: 'asc', nulls: 'first' } },
+          { name: 'asc' },
+        ],
+      }),
+      prisma.outreachEmail.groupBy({
+        by: ['template_version_id'],
+        where: { template_version_id: { not: null } },
+        _count: { _all: true, replied_at: true },
+      }),
+    ])
+
+    const statsByVersion = new Map(
+      stats.map((stat) => [
+        stat.template_version_id,
+        { sends: stat._count._all, replies: stat._count.replied_at },
+      ])
+    )
+
+    return templates.map((template) => ({
+      ...template,
+      variants: template.variants.map((variant) => {
+        const versions = variant.versions.map((version) => ({
+          ...version,
+          ...(statsByVersion.get(version.id) ?? { sends: 0, replies: 0 }),
+        }))
+        return {
+          ...variant,
+          versions,
+          sends: versions.reduce((total, version) => total + version.sends, 0),
+          replies: versions.reduce(
+            (total, version) => total + version.replies,
+            0
+          ),
+        }
+      }),
+    }))
+  } catch (error) {
+    console.error('Error fetching template library:', error)
+    throw new Error('Failed to fetch template library')
+  }
+}
+
+/**
+ * Create a template with a first variant to start editing from
+ */
+export async function createTemplate(name: string) {
+  try {
+    if (!name.trim()) {
+      throw new Error('Template name is required')
+    }
+
+    const session = await auth()
+
+    const template = await prisma.outreachTemplate.create({
+      data: {
+        name: name.trim(),
+        created_by_id: session?.user?.id,
+        variants: {
+          create: {
+            label: 'A',
+            versions: {
+              create: {
+                version: 1,
+                subject: NEW_TEMPLATE_SUBJECT,
+                body: NEW_TEMPLATE_BODY,
+                author_id: session?.user?.id,
+              },
+            },
+          },
+        },
+      },
+    })
+
+    revalidateTemplates()
+
+    return { success: true, id: template.id }
+  } catch (error) {
+    console.error('Error creating template:', error)
+    throw new Error('Failed to create template')
+  }
+}
+
+/**
+ * Rename a template
+ */
+export async function renameTemplate(id: number, name: string) {
+  try {
+    if (!name.trim()) {
+      throw new Error('Template name is required')
+    }
+
+    await prisma.outreachTemplate.update({
+      where: { id },
+      data: { name: name.trim() },
+    })
+
+    revalidateTemplates()
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error renaming template:', error)
+    throw new Error('Failed to rename template')
+  }
+}
+
+/**
+ * Archive a template so it can no longer be sent, or bring it back
+ */
+export async function setTemplateArchived(id: number, isArchived: boolean) {
+  try {
+    await prisma.outreachTemplate.update({
+      where: { id },
+      data: { archived_at: isArchived ? new Date() : null },
+    })
+
+    revalidateTemplates()
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error archiving template:', error)
+    throw new Error('Failed to archive template')
+  }
+}
+
+/**
+ * Save a variant's wording as its next version. Saving the wording it
+ * already has does not add a version.
+ */
+export async function saveTemplateVariant(
+  variantId: number,
+  data: { subject: string; body: string }
+) {
+  try {
+    validateTemplate(data.subject, data.body)
+
+    const session = await auth()
+
+    const version = await prisma.$transaction(async (tx) => {
+      const latest = await tx.outreachTemplateVersion.findFirst({
+        where: { variant_id: variantId },
+        orderBy: { version: 'desc' },
+      })
+
+      if (latest?.subject === data.subject && latest.body === data.body) {
+        return latest
+      }
+
+      return tx.outreachTemplateVersion.create({
+        data: {
+          variant_id: variantId,
+          version: (latest?.version ?? 0) + 1,
+          subject: data.subject,
+          body: data.body,
+          author_id: session?.user?.id,
+        },
+      })
+    })
+
+    revalidateTemplates()
+
+    return { success: true, version: version.version }
+  } catch (error) {
+    console.error('Error saving template variant:', error)
+    throw new Error('Failed to save template variant')
+  }
+}
+
+/**
+ * Add a variant to a template, starting from the latest wording of another
+ * variant of the same template. Variants are labelled A, B, C and so on up
+ * to Z.
+ */
+export async function addTemplateVariant(
+  templateId: number,
+  copyFromVariantId: number
+) {
+  try {
+    const session = await auth()
+
+    const variant = await prisma.$transaction(async (tx) => {
+      const [variantCount, source] = await Promise.all([
+        tx.outreachTemplateVariant.count({
+          where: { template_id: templateId },
+        }),
+        tx.outreachTemplateVersion.findFirst({
+          where: {
+            variant: { id: copyFromVariantId, template_id: templateId },
+          },
+          orderBy: { version: 'desc' },
+        }),
+      ])
+
+      if (!source) {
+        throw new Error('Variant to copy not found')
+      }
+      if (variantCount >= MAX_TEMPLATE_VARIANTS) {
+        throw new Error(
+          `Templates can have at most ${MAX_TEMPLATE_VARIANTS} variants`
+        )
+      }
+
+      return tx.outreachTemplateVariant.create({
+        data: {
+          template_id: templateId,
+          label: String.fromCharCode(65 + variantCount),
+          versions: {
+            create: {
+              version: 1,
+              subject: source.subject,
+              body: source.body,
+              author_id: session?.user?.id,
+            },
+          },
+        },
+      })
+    })
+
+    revalidateTemplates()
+
+    return { success: true, id: variant.id }
+  } catch (error) {
+    console.error('Error adding template variant:', error)
+    throw new Error('Failed to add template variant')
+  }
+}
+
+/**
+ * Pause a variant so it is no longer picked for sends, or resume it
+ */
+export async function setTemplateVariantActive(
+  variantId: number,
+  isActive: boolean
+) {
+  try {
+    await prisma.outreachTemplateVariant.update({
+      where: { id: variantId },
+      data: { is_active: isActive },
+    })
+
+    revalidateTemplates()
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating template variant:', error)
+    throw new Error('Failed to update template variant')
+  }
+}
+
+/**
+ * A property to preview templates against: the one asked for, or the most
+ * recently updated one. Properties in the trash are not used.
+ */
+export async function getPreviewProperty(id?: number) {
+  try {
+    return await prisma.property.findFirst({
+      where: { ...(id ? { id } : {}), deleted_at: null },
+      select: {
+        id: true,
+        display_name: true,
+        business_name: true,
+        street_address: true,
+        city: true,
+        state: true,
+        zipcode: true,
+        price: true,
+        days_on_zillow: true,
+        unstaged_images: { take: 1, orderBy: { id: 'asc' } },
+        generated_images: { take: 1, orderBy: { id: 'asc' } },
+      },
+      orderBy: { updated_at: 'desc' },
+    })
+  } catch (error) {
+    console.error('Error fetching preview property:', error)
+    throw new Error('Failed to fetch preview property')
+  }
+}
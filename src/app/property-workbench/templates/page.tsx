@@ -0,0 +1,49 @@
+import Link from 'next/link'
+import { getPreviewProperty, getTemplateLibrary } from './actions'
+import TemplateLibrary from './TemplateLibrary'
+import { auth } from '@/auth'
+import { parseId } from '@/lib/utils'
+
+type TemplatesSearchParams = Record<string, string | string[] | undefined>
+
+function getParam(params: TemplatesSearchParams, name: string) {
+  const value = params[name]
+  return typeof value === 'string' && value ? value : undefined
+}
+
+export default async function TemplatesPage({
+  searchParams,
+}: {
+  searchParams: Promise<TemplatesSearchParams>
+}) {
+  const params = await searchParams
+  const templateId = parseId(getParam(params, 'template')) ?? undefined
+  const propertyId = parseId(getParam(params, 'property')) ?? undefined
+
+  const [templates, previewProperty, session] = await Promise.all([
+    getTemplateLibrary(),
+    getPreviewProperty(propertyId),
+    auth(),
+  ])
+
+  const selectedTemplate =
+    templates.find((template) => template.id === templateId) ?? templates[0]
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Templates</h1>
+        <Link href="/property-workbench" className="hover:underline">
+          Back to Property Workbench
+        </Link>
+      </div>
+      <TemplateLibrary
+        templates={templates}
+        selectedTemplate={selectedTemplate ?? null}
+        previewProperty={previewProperty}
+        requestedPropertyId={propertyId ?? null}
+        senderName={session?.user?.name ?? null}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { purgeProperties, restoreProperties } from '../actions'
+import { TrashedProperty } from '../types'
+import { getLeadStage } from '@/lib/lead-stages'
+import ConfirmationDialog from '@/components/ConfirmationDialog'
+
+interface TrashListProps {
+  properties: TrashedProperty[]
+}
+
+export default function TrashList({ properties }: TrashListProps) {
+  const [workingIds, setWorkingIds] = useState<number[]>([])
+  // Properties waiting on confirmation to be deleted for good
+  const [idsToPurge, setIdsToPurge] = useState<number[] | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const runAction = async (
+    ids: number[],
+    action: (ids: number[]) => Promise<unknown>,
+    failure: string
+  ) => {
+    setWorkingIds(ids)
+    setErrorMessage(null)
+    try {
+      await action(ids)
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      setErrorMessage(failure)
+    } finally {
+      setWorkingIds([])
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!idsToPurge) return
+    await runAction(
+      idsToPurge,
+      purgeProperties,
+      'Failed to permanently delete properties'
+    )
+  }
+
+  if (properties.length === 0) {
+    return (
+      <div className="border rounded-lg p-8 bg-white shadow text-center text-gray-500">
+        The Trash is empty
+      </div>
+    )
+  }
+
+  const purgeCount = idsToPurge?.length ?? 0
+
+  return (
+    <div className="border rounded-lg bg-white shadow overflow-auto text-gray-800">
+      <div className="p-2 flex justify-between items-center border-b">
+        <span className="text-sm text-gray-600">
+          {properties.length}{' '}
+          {properties.length === 1 ? 'property' : 'properties'}
+        </span>
+        <div className="flex items-center gap-2">
+          {errorMessage && (
+            <span className="text-sm text-red-600">{errorMessage}</span>
+          )}
+          <button
+            onClick={() =>
+              setIdsToPurge(properties.map((property) => property.id))
+            }
+            disabled={workingIds.length > 0}
+            className="px-3 py-1 rounded text-sm text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+          >
+            Empty Trash
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="p-2 text-left">Property</th>
+            <th className="p-2 text-left">Stage</th>
+            <th className="p-2 text-right">Generated images</th>
+            <th className="p-2 text-left">Deleted at</th>
+            <th className="p-2 text-left">Purged on</th>
+            <th className="p-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {properties.map((property) => {
+            const isWorking = workingIds.includes(property.id)
+            return (
+              <tr key={property.id} className="border-b hover:bg-gray-50">
+                <td className="p-2">
+                  <div>
+                    {property.street_address || (
+                      <span className="text-gray-400">No address</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    #{property.id}
+                    {property.city && ` · ${property.city}`}
+                    {property.state && `, ${property.state}`}
+                  </div>
+                </td>
+                <td className="p-2">{getLeadStage(property.stage).label}</td>
+                <td className="p-2 text-right">
+                  {property._count.generated_images}
+                </td>
+                <td className="p-2">{property.deleted_at?.toLocaleString()}</td>
+                <td className="p-2">
+                  {property.purgeAt?.toLocaleDateString()}
+                </td>
+                <td className="p-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() =>
+                      runAction(
+                        [property.id],
+                        restoreProperties,
+                        'Failed to restore property'
+                      )
+                    }
+                    disabled={isWorking}
+                    className="text-blue-600 hover:underline disabled:text-gray-400"
+                  >
+                    {isWorking ? 'Working...' : 'Restore'}
+                  </button>
+                  <button
+                    onClick={() => setIdsToPurge([property.id])}
+                    disabled={isWorking}
+                    className="ml-3 text-red-600 hover:underline disabled:text-gray-400"
+                  >
+                    Delete forever
+                  </button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <p className="p-2 text-xs text-gray-500">
+        Restored properties go back to their stage in the{' '}
+        <Link href="/property-workbench" className="hover:underline">
+          Property Workbench
+        </Link>
+        .
+      </p>
+
+      <ConfirmationDialog
+        isOpen={idsToPurge !== null}
+        onClose={() => setIdsToPurge(null)}
+        onConfirm={handlePurge}
+        title="Delete Forever"
+        message={`Permanently delete ${
+          purgeCount === 1 ? 'this property' : `${purgeCount} properties`
+        } and all related images? This cannot be undone.`}
+        confirmLabel="Delete Forever"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import Link from 'next/link'
+import { getTrashedProperties } from '../actions'
+import TrashList from './TrashList'
+import { getTrashRetentionDays } from '@/lib/property-trash'
+
+export default async function TrashPage() {
+  const properties = await getTrashedProperties()
+  const retentionDays = getTrashRetentionDays()
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-4xl font-bold">TRASH</h1>
+        <Link href="/property-workbench" className="hover:underline">
+          Back to Property Workbench
+        </Link>
+      </div>
+      <p className="mb-4 text-gray-600">
+        Deleted properties keep their images and are purged permanently{' '}
+        {retentionDays} days after they were deleted.
+      </p>
+      <TrashList properties={properties} />
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import type {
+  OutreachTemplate,
+  OutreachTemplateVariant,
+  OutreachTemplateVersion,
+} from '@prisma/client'
+import { LeadStage } from '@/lib/lead-stages'
+import { PropertyFilters } from '@/lib/property-filters'
+
+export interface LeadProperty {
+  id: number
+  street_address: string | null
+  state: string | null
+  price: number | null
+  previous_price: number | null
+  stage: string
+  stage_changed_at: Date | null
+  created_at: Date
+}
+
+export interface LeadPage {
+  leads: LeadProperty[]
+  nextCursor: number | null
+}
+
+export type StageCounts = Record<LeadStage, number>
+
+export interface FilterOptions {
+  states: string[]
+  listingStatuses: string[]
+  agentBadgeTypes: string[]
+}
+
+export interface BoardCard {
+  id: number
+  street_address: string | null
+  city: string | null
+  state: string | null
+  display_name: string | null
+  price: number | null
+  previous_price: number | null
+  days_on_zillow: number | null
+  stage: string
+  generated_images: { image_url: string }[]
+}
+
+export interface BoardColumnState {
+  cards: BoardCard[]
+  nextCursor: number | null
+  total: number
+}
+
+export interface SavedSearchSummary {
+  id: number
+  name: string
+  query: string
+  // Lead filters as URL search params
+  filters: string
+  is_shared: boolean
+  isOwn: boolean
+  ownerName: string | null
+  // Null when the saved query no longer parses
+  count: number | null
+}
+
+/**
+ * Properties a bulk action applies to: the checked ones, or everything
+ * matching the lead list or search being shown
+ */
+export type BulkTarget =
+  | { type: 'ids'; ids: number[] }
+  | { type: 'stage'; stage: LeadStage; filters: PropertyFilters }
+  | { type: 'search'; query: string; filters: PropertyFilters }
+
+export interface TrashedProperty {
+  id: number
+  street_address: string | null
+  city: string | null
+  state: string | null
+  stage: string
+  deleted_at: Date | null
+  purgeAt: Date | null
+  _count: { generated_images: number }
+}
+
+/**
+ * A template that can be sent from the outreach panel
+ */
+export interface OutreachTemplateOption {
+  id: number
+  name: string
+  // Active variants with their latest version
+  variants: { id: number; label: string; version: OutreachTemplateVersion }[]
+}
+
+export interface TemplateVersionWithStats extends OutreachTemplateVersion {
+  author: { name: string | null; email: string } | null
+  sends: number
+  replies: number
+}
+
+export interface TemplateVariantWithStats extends OutreachTemplateVariant {
+  // Newest first
+  versions: TemplateVersionWithStats[]
+  sends: number
+  replies: number
+}
+
+export interface TemplateLibraryEntry extends OutreachTemplate {
+  variants: TemplateVariantWithStats[]
+}
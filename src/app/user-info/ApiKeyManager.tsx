@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { createApiKey, revokeApiKey } from './actions'
+import ConfirmationDialog from '@/components/ConfirmationDialog'
+
+interface ApiKeySummary {
+  id: number
+  name: string
+  key_prefix: string
+  last_used_at: Date | null
+  revoked_at: Date | null
+  created_at: Date
+}
+
+interface ApiKeyManagerProps {
+  apiKeys: ApiKeySummary[]
+}
+
+export default function ApiKeyManager({ apiKeys }: ApiKeyManagerProps) {
+  const [name, setName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKeySummary | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsCreating(true)
+    setErrorMessage(null)
+    try {
+      const result = await createApiKey(name)
+      if (result.success && result.key) {
+        setNewKey(result.key)
+        setName('')
+      } else {
+        setErrorMessage(result.error || 'Failed to create API key')
+      }
+    } catch (error) {
+      console.error('Error creating API key:', error)
+      setErrorMessage('An error occurred while creating the API key')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!keyToRevoke) return
+
+    setErrorMessage(null)
+    try {
+      const result = await revokeApiKey(keyToRevoke.id)
+      if (!result.success) {
+        setErrorMessage(result.error || 'Failed to revoke API key')
+      }
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      setErrorMessage('An error occurred while revoking the API key')
+    }
+  }
+
+  return (
+    <div className="mt-8 max-w-3xl">
+      <h2 className="text-xl font-semibold mb-2">API Keys</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Scrapers can push listings to <code>POST /api/properties/import</code>{' '}
+        with <code>Authorization: Bearer &lt;key&gt;</code>. Pushes show up in
+        the import history alongside manual uploads.
+      </p>
+
+      <form onSubmit={handleCreate} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. Redfin scraper"
+          className="flex-1 px-3 py-2 border rounded text-[#0a0a0a]"
+        />
+        <button
+          type="submit"
+          disabled={isCreating || !name.trim()}
+          className={`px-4 py-2 rounded text-white ${
+            isCreating || !name.trim()
+              ? 'bg-gray-400 cursor-not-allowed'
+              : 'bg-blue-500 hover:bg-blue-600'
+          }`}
+        >
+          {isCreating ? 'Creating...' : 'Create Key'}
+        </button>
+      </form>
+
+      {errorMessage && (
+        <p className="text-red-600 text-sm mb-4">{errorMessage}</p>
+      )}
+
+      {newKey && (
+        <div className="mb-4 p-3 rounded border border-green-300 bg-green-50 text-green-900">
+          <p className="text-sm font-medium mb-1">
+            Copy this key now, it won&apos;t be shown again:
+          </p>
+          <div className="flex gap-2 items-center">
+            <code className="flex-1 break-all text-sm">{newKey}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newKey)}
+              className="px-2 py-1 text-sm rounded bg-green-600 text-white hover:bg-green-700"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setNewKey(null)}
+              className="px-2 py-1 text-sm rounded border border-green-600 hover:bg-green-100"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {apiKeys.length > 0 ? (
+        <div className="border rounded-lg bg-white shadow overflow-auto text-gray-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">Name</th>
+                <th className="p-2 text-left">Key</th>
+                <th className="p-2 text-left">Created</th>
+                <th className="p-2 text-left">Last used</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.map((apiKey) => (
+                <tr
+                  key={apiKey.id}
+                  className={`border-b ${apiKey.revoked_at ? 'text-gray-400' : ''}`}
+                >
+                  <td className="p-2">{apiKey.name}</td>
+                  <td className="p-2 font-mono">{apiKey.key_prefix}…</td>
+                  <td className="p-2">{apiKey.created_at.toLocaleString()}</td>
+                  <td className="p-2">
+                    {apiKey.last_used_at?.toLocaleString() ?? 'Never'}
+                  </td>
+                  <td className="p-2 text-right">
+                    {apiKey.revoked_at ? (
+                      'Revoked'
+                    ) : (
+                      <button
+                        onClick={() => setKeyToRevoke(apiKey)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-400">No API keys yet</p>
+      )}
+
+      <ConfirmationDialog
+        isOpen={keyToRevoke !== null}
+        onClose={() => setKeyToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Revoke API Key"
+        message={`Scrapers using "${keyToRevoke?.name ?? 'this key'}" will no longer be able to push imports. This cannot be undone.`}
+      />
+    </div>
+  )
+}
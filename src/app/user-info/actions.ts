@@ -0,0 +1,108 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { generateApiKey } from '@/lib/api-keys'
+import { prisma } from '@/lib/prisma'
+
+interface CreateApiKeyResult {
+  success: boolean
+  key?: string
+  error?: string
+}
+
+async function requireUserId() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    throw new Error('You must be signed in to manage API keys')
+  }
+  return session.user.id
+}
+
+/**
+ * Get the signed-in user's API keys, newest first. Only the prefix of each
+ * key is kept, so the keys themselves can't be shown again.
+ */
+export async function getApiKeys() {
+  try {
+    const userId = await requireUserId()
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { user_id: userId },
+      select: {
+        id: true,
+        name: true,
+        key_prefix: true,
+        last_used_at: true,
+        revoked_at: true,
+        created_at: true,
+      },
+      orderBy: {
+        created_at: 'desc',
+      },
+    })
+    return apiKeys
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    throw new Error('Failed to fetch API keys')
+  }
+}
+
+/**
+ * Create an API key for pushing imports. The plain key is only returned here.
+ */
+export async function createApiKey(name: string): Promise<CreateApiKeyResult> {
+  try {
+    const userId = await requireUserId()
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      return { success: false, error: 'Give the key a name' }
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey()
+    await prisma.apiKey.create({
+      data: {
+        user_id: userId,
+        name: trimmedName,
+        key_prefix: keyPrefix,
+        key_hash: keyHash,
+      },
+    })
+
+    revalidatePath('/user-info')
+
+    return { success: true, key }
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Revoke one of the signed-in user's API keys
+ */
+export async function revokeApiKey(id: number) {
+  try {
+    const userId = await requireUserId()
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, user_id: userId, revoked_at: null },
+      data: { revoked_at: new Date() },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'API key not found' }
+    }
+
+    revalidatePath('/user-info')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import { auth } from '@/auth'
 import Image from 'next/image'
+import { getApiKeys } from './actions'
+import ApiKeyManager from './ApiKeyManager'
 
 export default async function UserInfo() {
   const session = await auth()
+  const apiKeys = session?.user ? await getApiKeys() : []
   return (
     <div className="p-4">
       <h1> Test Protected Path - User Info</h1>
@@ -17,6 +20,7 @@ export default async function UserInfo() {
           style={{ borderRadius: '50%' }}
         />
       )}
+      <ApiKeyManager apiKeys={apiKeys} />
     </div>
   )
 }
@@ -8,6 +8,7 @@ interface ConfirmationDialogProps {
   onConfirm: () => void
   title: string
   message: string
+  confirmLabel?: string
 }
 
 export default function ConfirmationDialog({
@@ -16,6 +17,7 @@ export default function ConfirmationDialog({
   onConfirm,
   title,
   message,
+  confirmLabel = 'Delete',
 }: ConfirmationDialogProps) {
   const [isVisible, setIsVisible] = useState(false)
 
@@ -31,6 +33,17 @@ export default function ConfirmationDialog({
     }
   }, [isOpen])
 
+  // Escape cancels, and Enter confirms through the focused confirm button
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
   if (!isVisible) return null
 
   return (
@@ -70,8 +83,9 @@ export default function ConfirmationDialog({
                 onConfirm()
                 onClose()
               }}
+              autoFocus
             >
-              Delete
+              {confirmLabel}
             </button>
           </div>
         </div>
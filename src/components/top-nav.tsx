@@ -21,6 +21,9 @@ async function TopNav() {
           <Link href="/property-workbench" className="hover:underline">
             Property Workbench
           </Link>
+          <Link href="/activity" className="hover:underline">
+            Activity
+          </Link>
           <Link href="/prompts" className="hover:underline">
             Prompts
           </Link>
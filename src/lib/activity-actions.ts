@@ -0,0 +1,126 @@
+import type { Prisma } from '@prisma/client'
+import { getLeadStage } from '@/lib/lead-stages'
+
+/**
+ * Changes to properties recorded in the activity log
+ */
+export const ACTIVITY_ACTIONS = {
+  stage_change: { label: 'Changed stage' },
+  // Recorded before notes became a thread
+  notes_update: { label: 'Edited notes' },
+  note_add: { label: 'Added a note' },
+  note_edit: { label: 'Edited a note' },
+  note_pin: { label: 'Pinned a note' },
+  note_unpin: { label: 'Unpinned a note' },
+  tags_update: { label: 'Changed tags' },
+  image_upload: { label: 'Uploaded an image' },
+  email_sent: { label: 'Emailed the agent' },
+  delete: { label: 'Moved to the Trash' },
+  restore: { label: 'Restored from the Trash' },
+  purge: { label: 'Deleted forever' },
+  import_create: { label: 'Created by an import' },
+  import_update: { label: 'Updated by an import' },
+  import_rollback: { label: 'Removed by an import rollback' },
+} as const satisfies Record<string, { label: string }>
+
+export type ActivityAction = keyof typeof ACTIVITY_ACTIONS
+
+export const ACTIVITY_ACTION_IDS = Object.keys(
+  ACTIVITY_ACTIONS
+) as ActivityAction[]
+
+export function isActivityAction(value: string): value is ActivityAction {
+  return Object.hasOwn(ACTIVITY_ACTIONS, value)
+}
+
+/**
+ * Display details for an action stored in the log, tolerating actions that
+ * are no longer recorded
+ */
+export function getActivityAction(action: string) {
+  return isActivityAction(action) ? ACTIVITY_ACTIONS[action] : { label: action }
+}
+
+/**
+ * Value of a field in an activity's before or after values
+ */
+function getValue(values: Prisma.JsonValue | null, field: string) {
+  return values && typeof values === 'object' && !Array.isArray(values)
+    ? values[field]
+    : undefined
+}
+
+function truncate(text: string, length = 80) {
+  return text.length > length ? `${text.slice(0, length)}...` : text
+}
+
+function getTags(values: Prisma.JsonValue | null) {
+  const tags = getValue(values, 'tags')
+  return Array.isArray(tags) ? tags.map(String) : []
+}
+
+/**
+ * One line summary of what an activity changed, or null when the action
+ * says it all
+ */
+export function describeActivityChange(activity: {
+  action: string
+  before: Prisma.JsonValue | null
+  after: Prisma.JsonValue | null
+}) {
+  const { before, after } = activity
+
+  switch (activity.action) {
+    case 'stage_change':
+      return `${getLeadStage(String(getValue(before, 'stage'))).label} → ${
+        getLeadStage(String(getValue(after, 'stage'))).label
+      }`
+    case 'tags_update': {
+      const beforeTags = getTags(before)
+      const afterTags = getTags(after)
+      return [
+        ...afterTags
+          .filter((tag) => !beforeTags.includes(tag))
+          .map((tag) => `+${tag}`),
+        ...beforeTags
+          .filter((tag) => !afterTags.includes(tag))
+          .map((tag) => `-${tag}`),
+      ].join(' ')
+    }
+    case 'notes_update': {
+      const notes = getValue(after, 'notes')
+      if (typeof notes !== 'string' || !notes.trim()) return 'Cleared notes'
+      return truncate(notes)
+    }
+    case 'note_add':
+    case 'note_edit':
+      return truncate(String(getValue(after, 'body') ?? ''))
+    case 'image_upload':
+      return String(getValue(after, 'image_url') ?? '')
+    case 'email_sent':
+      return `"${getValue(after, 'subject')}" to ${getValue(after, 'to')}`
+    case 'import_create':
+      return `Import #${getValue(after, 'import_batch_id')}`
+    case 'import_update': {
+      // The import's values for the fields it changed, next to the batch
+      const fields =
+        after && typeof after === 'object' && !Array.isArray(after)
+          ? Object.keys(after).filter((field) => field !== 'import_batch_id')
+          : []
+      return `Import #${getValue(after, 'import_batch_id')}: ${
+        fields.length > 0 ? fields.join(', ') : 'new images'
+      }`
+    }
+    case 'purge':
+    case 'import_rollback':
+      return [
+        getValue(before, 'street_address'),
+        getValue(before, 'city'),
+        getValue(before, 'state'),
+      ]
+        .filter(Boolean)
+        .join(', ')
+    default:
+      return null
+  }
+}
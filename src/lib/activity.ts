@@ -0,0 +1,33 @@
+import type { Prisma } from '@prisma/client'
+import { ActivityAction } from '@/lib/activity-actions'
+import { prisma } from '@/lib/prisma'
+
+export interface ActivityEntry {
+  propertyId: number
+  action: ActivityAction
+  // The changed fields before and after the change
+  before?: Prisma.InputJsonObject
+  after?: Prisma.InputJsonObject
+}
+
+/**
+ * Add entries to the activity log. Pass the transaction making the change
+ * so the change and its entry are saved together.
+ */
+export async function recordActivity(
+  userId: string | null | undefined,
+  entries: ActivityEntry[],
+  db: Prisma.TransactionClient = prisma
+) {
+  if (entries.length === 0) return
+
+  await db.activity.createMany({
+    data: entries.map((entry) => ({
+      property_id: entry.propertyId,
+      user_id: userId,
+      action: entry.action,
+      before: entry.before,
+      after: entry.after,
+    })),
+  })
+}
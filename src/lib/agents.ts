@@ -0,0 +1,124 @@
+import type { Prisma } from '@prisma/client'
+import type {
+  FieldChange,
+  ImportedProperty,
+  ImportedPropertyField,
+} from '@/lib/import/types'
+
+/**
+ * Imported property columns that describe the listing agent
+ */
+export const AGENT_PROPERTY_FIELDS = [
+  'display_name',
+  'business_name',
+  'phone_number',
+  'agent_badge_type',
+  'photo_url',
+  'profile_url',
+] as const satisfies readonly ImportedPropertyField[]
+
+type AgentDetails = Pick<
+  ImportedProperty,
+  (typeof AGENT_PROPERTY_FIELDS)[number]
+>
+
+/**
+ * True when an imported listing changed its agent details, so its agent
+ * needs to be looked up again. A listing can change hands.
+ */
+export function hasAgentChanges(changes: FieldChange[]) {
+  return changes.some((change) =>
+    (AGENT_PROPERTY_FIELDS as readonly string[]).includes(change.field)
+  )
+}
+
+/**
+ * Reduces a Zillow profile URL to its lowercased path, so the absolute and
+ * relative forms of a profile match. Returns null when there is no profile.
+ *
+ * Keep in sync with the backfill in the add_agents migration.
+ */
+export function getAgentProfileKey(profileUrl: string | null) {
+  const path = (profileUrl ?? '')
+    .trim()
+    .replace(/^https?:\/\/(www\.)?zillow\.com/i, '')
+    .toLowerCase()
+    .replace(/\/+$/, '')
+  return path || null
+}
+
+/**
+ * Reduces a phone number to its digits without the US country code.
+ * Returns null when there are no digits.
+ *
+ * Keep in sync with the backfill in the add_agents migration.
+ */
+export function getAgentPhoneKey(phoneNumber: string | null) {
+  const digits = (phoneNumber ?? '').replace(/\D/g, '')
+  return digits.replace(/^1(\d{10})$/, '$1') || null
+}
+
+/**
+ * Find the agent of an imported listing, or create one. Agents are matched
+ * on their profile, then on their phone number as long as that does not
+ * join two different profiles. The agent takes the listing's details.
+ * Returns null when the listing has neither a profile nor a phone number.
+ */
+export async function findOrCreateAgent(
+  tx: Prisma.TransactionClient,
+  details: AgentDetails
+) {
+  const profileKey = getAgentProfileKey(details.profile_url)
+  const phoneKey = getAgentPhoneKey(details.phone_number)
+
+  if (!profileKey && !phoneKey) {
+    return null
+  }
+
+  const agent =
+    (profileKey
+      ? await tx.agent.findUnique({ where: { profile_url: profileKey } })
+      : null) ??
+    (phoneKey
+      ? await tx.agent.findFirst({
+          where: {
+            phone_key: phoneKey,
+            ...(profileKey ? { profile_url: null } : {}),
+          },
+          orderBy: { id: 'asc' },
+        })
+      : null)
+
+  // Details missing from this listing keep their earlier value
+  const data = {
+    profile_url: profileKey ?? undefined,
+    phone_key: phoneKey ?? undefined,
+    display_name: details.display_name ?? undefined,
+    business_name: details.business_name ?? undefined,
+    phone_number: details.phone_number ?? undefined,
+    agent_badge_type: details.agent_badge_type ?? undefined,
+    photo_url: details.photo_url ?? undefined,
+  }
+
+  return agent
+    ? tx.agent.update({ where: { id: agent.id }, data })
+    : tx.agent.create({ data })
+}
+
+/**
+ * Mark the agents of properties that moved to the contacted stage as
+ * contacted
+ */
+export async function recordAgentContact(
+  tx: Prisma.TransactionClient,
+  propertyIds: number[],
+  userId: string | null | undefined,
+  contactedAt: Date
+) {
+  if (propertyIds.length === 0) return
+
+  await tx.agent.updateMany({
+    where: { properties: { some: { id: { in: propertyIds } } } },
+    data: { last_contacted_at: contactedAt, last_contacted_by_id: userId },
+  })
+}
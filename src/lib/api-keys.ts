@@ -0,0 +1,86 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+const API_KEY_PREFIX = 'pf_'
+
+// Pushes allowed per key within the rolling window
+export const IMPORT_RATE_LIMIT = {
+  requests: 60,
+  windowMs: 60 * 60 * 1000,
+}
+
+/**
+ * Keys are only stored as a SHA-256 hash, the plain key is shown once
+ */
+export function hashApiKey(key: string) {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Generate a new random API key along with the parts that get stored
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  return {
+    key,
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: hashApiKey(key),
+  }
+}
+
+/**
+ * Look up the active API key sent as `Authorization: Bearer <key>`,
+ * or null if it is missing, unknown or revoked
+ */
+export async function authenticateApiKey(authorization: string | null) {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  if (!match) return null
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { key_hash: hashApiKey(match[1]) },
+  })
+  if (!apiKey || apiKey.revoked_at) return null
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { last_used_at: new Date() },
+  })
+
+  return apiKey
+}
+
+/**
+ * Seconds until the key may push another import, or 0 if it is under the
+ * limit. Every push counts, including ones that were rejected.
+ */
+export async function getImportRetryAfter(apiKeyId: number) {
+  const windowStart = new Date(Date.now() - IMPORT_RATE_LIMIT.windowMs)
+  const recentAttempts = await prisma.importAttempt.findMany({
+    where: { api_key_id: apiKeyId, created_at: { gte: windowStart } },
+    select: { created_at: true },
+    orderBy: { created_at: 'desc' },
+    take: IMPORT_RATE_LIMIT.requests,
+  })
+
+  if (recentAttempts.length < IMPORT_RATE_LIMIT.requests) return 0
+
+  // The oldest push counted against the limit frees a slot when it expires
+  const oldest = recentAttempts[recentAttempts.length - 1].created_at
+  const freesAt = oldest.getTime() + IMPORT_RATE_LIMIT.windowMs
+  return Math.max(1, Math.ceil((freesAt - Date.now()) / 1000))
+}
+
+/**
+ * Count a push against the key's rate limit, dropping its attempts that are
+ * too old to count any more
+ */
+export async function recordImportAttempt(apiKeyId: number) {
+  const windowStart = new Date(Date.now() - IMPORT_RATE_LIMIT.windowMs)
+
+  await prisma.$transaction([
+    prisma.importAttempt.deleteMany({
+      where: { api_key_id: apiKeyId, created_at: { lt: windowStart } },
+    }),
+    prisma.importAttempt.create({ data: { api_key_id: apiKeyId } }),
+  ])
+}
@@ -0,0 +1,88 @@
+import { createTransport } from 'nodemailer'
+import { Resend } from 'resend'
+
+export interface EmailMessage {
+  from: string
+  to: string
+  replyTo?: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface EmailTransport {
+  name: EmailTransportName
+  // Returns the id the transport gave the message, when it has one
+  send: (message: EmailMessage) => Promise<string | null>
+}
+
+export type EmailTransportName = 'resend' | 'smtp' | 'console'
+
+const resendTransport: EmailTransport = {
+  name: 'resend',
+  async send(message) {
+    const resend = new Resend(process.env.AUTH_RESEND_KEY)
+    const { data, error } = await resend.emails.send(message)
+    if (error) {
+      throw new Error(`Resend rejected the email: ${error.message}`)
+    }
+    return data?.id ?? null
+  },
+}
+
+// For a local mail catcher such as Mailpit, e.g. SMTP_URL=smtp://localhost:1025
+const smtpTransport: EmailTransport = {
+  name: 'smtp',
+  async send(message) {
+    const transporter = createTransport(
+      process.env.SMTP_URL ?? 'smtp://localhost:1025'
+    )
+    const info = await transporter.sendMail(message)
+    return info.messageId ?? null
+  },
+}
+
+// Logs the email instead of sending it
+const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      `Email to ${message.to}: ${message.subject}\n\n${message.text}\n`
+    )
+    return null
+  },
+}
+
+const EMAIL_TRANSPORTS: Record<EmailTransportName, EmailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  console: consoleTransport,
+}
+
+/**
+ * Transport chosen with EMAIL_TRANSPORT. Defaults to Resend in production
+ * and to the console everywhere else, so development never emails agents.
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT
+  if (name && Object.hasOwn(EMAIL_TRANSPORTS, name)) {
+    return EMAIL_TRANSPORTS[name as EmailTransportName]
+  }
+  if (name) {
+    throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`)
+  }
+  return process.env.NODE_ENV === 'production'
+    ? resendTransport
+    : consoleTransport
+}
+
+/**
+ * Address outreach emails are sent from, set with OUTREACH_FROM
+ */
+export function getOutreachSender() {
+  const from = process.env.OUTREACH_FROM ?? process.env.AUTH_RESEND_FROM
+  if (!from) {
+    throw new Error('OUTREACH_FROM is not set')
+  }
+  return from
+}
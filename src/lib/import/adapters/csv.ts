@@ -0,0 +1,106 @@
+import { validateListing } from '../listing-schema'
+import { ColumnMapping, MappableField, SourceAdapter } from '../types'
+import { buildListingInput, guessField } from './fields'
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells containing
+ * commas, newlines and escaped ("") quotes.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Ignore blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
+
+/**
+ * The header row of a CSV file
+ */
+export function getCsvHeaders(content: string): string[] {
+  const [headers = []] = parseCsv(content)
+  return headers.map((header) => header.trim())
+}
+
+/**
+ * Suggest a column for each field based on the header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+
+  for (const header of headers) {
+    const field = guessField(header)
+    if (field && !mapping[field]) {
+      mapping[field] = header
+    }
+  }
+
+  return mapping
+}
+
+export const csvAdapter: SourceAdapter = {
+  id: 'csv',
+  label: 'CSV (MLS export)',
+  detect: (_content, fileName) => /\.csv$/i.test(fileName),
+  parse: (content, options) => {
+    const [headerRow, ...dataRows] = parseCsv(content)
+
+    if (!headerRow) {
+      throw new Error('CSV file is empty')
+    }
+
+    const headers = headerRow.map((header) => header.trim())
+    const mapping = options?.columnMapping ?? guessColumnMapping(headers)
+
+    return dataRows.map((cells, index) => {
+      const values: Partial<Record<MappableField, unknown>> = {}
+
+      for (const [field, column] of Object.entries(mapping)) {
+        const columnIndex = headers.indexOf(column)
+        if (columnIndex !== -1) {
+          values[field as MappableField] = cells[columnIndex]?.trim() || null
+        }
+      }
+
+      return validateListing(index, `rows[${index}]`, buildListingInput(values))
+    })
+  },
+}
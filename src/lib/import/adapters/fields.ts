@@ -0,0 +1,87 @@
+import { IMPORTED_PROPERTY_FIELDS, MappableField } from '../types'
+
+export const MAPPABLE_FIELDS: MappableField[] = [
+  ...IMPORTED_PROPERTY_FIELDS,
+  'unstaged_images',
+  'other_images',
+]
+
+/**
+ * Common column and key names used by MLS exports and the Redfin/Realtor
+ * scrapers, compared after `normalizeKey`
+ */
+const FIELD_ALIASES: Record<MappableField, string[]> = {
+  street_address: ['streetaddress', 'address', 'street', 'addressline1'],
+  zipcode: ['zipcode', 'zip', 'postalcode', 'zip5'],
+  city: ['city'],
+  state: ['state', 'stateorprovince'],
+  building_id: ['buildingid', 'zpid', 'listingid', 'mlsnumber', 'mls'],
+  listing_status: ['listingstatus', 'status', 'mlsstatus'],
+  price: ['price', 'listprice', 'listingprice', 'askingprice'],
+  display_name: ['displayname', 'agentname', 'listagentname', 'agent'],
+  business_name: ['businessname', 'brokerage', 'officename', 'listofficename'],
+  phone_number: ['phonenumber', 'phone', 'agentphone', 'listagentphone'],
+  agent_badge_type: ['agentbadgetype', 'agenttype', 'badge'],
+  photo_url: ['photourl', 'agentphoto', 'agentphotourl'],
+  profile_url: ['profileurl', 'agentprofile', 'agenturl'],
+  days_on_zillow: ['daysonzillow', 'daysonmarket', 'dom', 'cdom'],
+  unstaged_images: ['unstagedimages', 'unstaged', 'unstagedphotos'],
+  other_images: ['otherimages', 'images', 'photos', 'photourls', 'media'],
+}
+
+export function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Find the field a column or key most likely holds
+ */
+export function guessField(key: string): MappableField | null {
+  const normalized = normalizeKey(key)
+  return (
+    MAPPABLE_FIELDS.find((field) =>
+      FIELD_ALIASES[field].includes(normalized)
+    ) ?? null
+  )
+}
+
+const toNumber = (value: unknown) => {
+  if (typeof value !== 'string') return value
+  const trimmed = value.replace(/[$,\s]/g, '')
+  if (trimmed === '') return null
+  // Leave unparseable text alone so validation reports it
+  return Number.isNaN(Number(trimmed)) ? value : Number(trimmed)
+}
+
+const toUrlList = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return []
+  if (typeof value !== 'string') return value
+  return value.split(/[\s,|]+/).filter(Boolean)
+}
+
+/**
+ * Assemble loosely typed values (CSV cells, scraped JSON) into the listing
+ * shape, converting numbers and URL lists. The result still has to be
+ * validated.
+ */
+export function buildListingInput(
+  values: Partial<Record<MappableField, unknown>>
+) {
+  const property: Record<string, unknown> = {}
+
+  for (const field of IMPORTED_PROPERTY_FIELDS) {
+    const value = values[field]
+    property[field] =
+      field === 'price' || field === 'days_on_zillow'
+        ? toNumber(value)
+        : typeof value === 'number'
+        ? value.toString()
+        : value
+  }
+
+  return {
+    property,
+    unstaged_images: toUrlList(values.unstaged_images),
+    other_images: toUrlList(values.other_images),
+  }
+}
@@ -0,0 +1,31 @@
+import { ImportSource, SourceAdapter } from '../types'
+import { csvAdapter } from './csv'
+import { jsonLinesAdapter } from './json-lines'
+import { zillowAdapter } from './zillow'
+
+export const SOURCE_ADAPTERS: Record<ImportSource, SourceAdapter> = {
+  zillow: zillowAdapter,
+  csv: csvAdapter,
+  'json-lines': jsonLinesAdapter,
+}
+
+/**
+ * Pick the adapter for an uploaded file, or null if none recognizes it
+ */
+export function detectSource(
+  content: string,
+  fileName: string
+): ImportSource | null {
+  const adapter = Object.values(SOURCE_ADAPTERS).find((candidate) =>
+    candidate.detect(content, fileName)
+  )
+  return adapter?.id ?? null
+}
+
+export function getSourceAdapter(source: ImportSource): SourceAdapter {
+  const adapter = SOURCE_ADAPTERS[source]
+  if (!adapter) {
+    throw new Error(`Unknown import source: ${source}`)
+  }
+  return adapter
+}
@@ -0,0 +1,83 @@
+import { validateListing } from '../listing-schema'
+import { MappableField, ParsedRecord, SourceAdapter } from '../types'
+import { buildListingInput, guessField } from './fields'
+
+/**
+ * Map the keys of a flat scraped record onto listing fields
+ */
+function mapRecord(record: unknown) {
+  const values: Partial<Record<MappableField, unknown>> = {}
+
+  if (record && typeof record === 'object' && !Array.isArray(record)) {
+    for (const [key, value] of Object.entries(record)) {
+      const field = guessField(key)
+      if (field && values[field] === undefined) {
+        values[field] = value
+      }
+    }
+  }
+
+  return buildListingInput(values)
+}
+
+/**
+ * Split the file into records. Accepts one JSON object per line or a
+ * single top-level array of objects.
+ */
+function readRecords(content: string): {
+  prefix: string
+  records: (unknown | Error)[]
+} {
+  const trimmed = content.trim()
+
+  if (trimmed.startsWith('[')) {
+    const records = JSON.parse(trimmed)
+    return { prefix: '', records }
+  }
+
+  return {
+    prefix: 'lines',
+    records: content
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line) => {
+        try {
+          return JSON.parse(line)
+        } catch {
+          return new Error('invalid JSON')
+        }
+      }),
+  }
+}
+
+export const jsonLinesAdapter: SourceAdapter = {
+  id: 'json-lines',
+  label: 'JSON lines / flat JSON records (Redfin, Realtor)',
+  detect: (content, fileName) => {
+    if (/\.(jsonl|ndjson)$/i.test(fileName)) return true
+    if (!/\.json$/i.test(fileName)) return false
+    try {
+      return Array.isArray(JSON.parse(content))
+    } catch {
+      return false
+    }
+  },
+  parse: (content) => {
+    const { prefix, records } = readRecords(content)
+
+    return records.map((record, index): ParsedRecord => {
+      const recordPrefix = `${prefix}[${index}]`
+
+      if (record instanceof Error) {
+        return {
+          index,
+          listing: null,
+          errors: [`${recordPrefix}: ${record.message}`],
+          warnings: [],
+        }
+      }
+
+      return validateListing(index, recordPrefix, mapRecord(record))
+    })
+  },
+}
@@ -0,0 +1,172 @@
+import { z } from 'zod'
+import {
+  formatIssue,
+  getListingWarnings,
+  validateListing,
+} from '../listing-schema'
+import {
+  ImportedListing,
+  ImportedPropertyField,
+  ParsedRecord,
+  SourceAdapter,
+} from '../types'
+
+const agentInfoSchema = z.object({
+  displayName: z.string().nullish(),
+  businessName: z.string().nullish(),
+  phoneNumber: z.string().nullish(),
+  agentBadgeType: z.string().nullish(),
+  photoUrl: z.string().nullish(),
+  profileUrl: z.string().nullish(),
+})
+
+/**
+ * A single entry of `searchResults` in a Zillow search export.
+ * Only the fields we import are described; anything else is ignored.
+ */
+export const zillowSearchResultSchema = z.object({
+  property: z.object({
+    address: z.object({
+      streetAddress: z.string().min(1, 'street address is required'),
+      zipcode: z.string().min(1, 'zipcode is required'),
+      city: z.string().nullish(),
+      state: z.string().nullish(),
+      buildingId: z.union([z.string(), z.number()]).nullish(),
+    }),
+    price: z
+      .object({
+        value: z.number().nonnegative().nullish(),
+      })
+      .nullish(),
+    listing: z
+      .object({
+        listingStatus: z.string().nullish(),
+      })
+      .nullish(),
+    daysOnZillow: z.number().int().nonnegative().nullish(),
+    contact_info: z
+      .object({
+        propertyInfo: z
+          .object({
+            agentInfo: agentInfoSchema.nullish(),
+          })
+          .nullish(),
+      })
+      .nullish(),
+    media: z
+      .object({
+        allPropertyPhotos: z
+          .object({
+            unstaged: z.array(z.string().url()).nullish(),
+            highResolution: z.array(z.string().url()).nullish(),
+          })
+          .nullish(),
+      })
+      .nullish(),
+  }),
+})
+
+export const zillowExportSchema = z.object({
+  searchResults: z.array(z.unknown()),
+})
+
+export type ZillowSearchResult = z.infer<typeof zillowSearchResultSchema>
+
+/**
+ * Map a validated Zillow search result onto the listing shape we store.
+ * Values are normalized by validateListing, like every other source.
+ */
+export function mapZillowSearchResult(
+  searchResult: ZillowSearchResult
+): ImportedListing {
+  const { address, price, listing, daysOnZillow, contact_info, media } =
+    searchResult.property
+  const agentInfo = contact_info?.propertyInfo?.agentInfo
+
+  return {
+    property: {
+      street_address: address.streetAddress,
+      zipcode: address.zipcode,
+      city: address.city ?? null,
+      state: address.state ?? null,
+      building_id: address.buildingId?.toString() ?? null,
+      listing_status: listing?.listingStatus ?? null,
+      price: price?.value ?? null,
+      display_name: agentInfo?.displayName ?? null,
+      business_name: agentInfo?.businessName ?? null,
+      phone_number: agentInfo?.phoneNumber ?? null,
+      agent_badge_type: agentInfo?.agentBadgeType ?? null,
+      photo_url: agentInfo?.photoUrl ?? null,
+      profile_url: agentInfo?.profileUrl ?? null,
+      days_on_zillow: daysOnZillow ?? null,
+    },
+    unstaged_images: media?.allPropertyPhotos?.unstaged ?? [],
+    other_images: media?.allPropertyPhotos?.highResolution ?? [],
+  }
+}
+
+const agentInfoPath = 'property.contact_info.propertyInfo.agentInfo'
+
+// Where each property field lives in a search result, for messages
+const fieldPaths: Partial<Record<ImportedPropertyField, string>> = {
+  display_name: `${agentInfoPath}.displayName`,
+  phone_number: `${agentInfoPath}.phoneNumber`,
+  price: 'property.price.value',
+}
+
+/**
+ * Validate a parsed Zillow export record by record. Records with hard
+ * errors have no listing; warnings never stop a record from importing.
+ */
+export function validateZillowExport(data: unknown): ParsedRecord[] {
+  const parsedExport = zillowExportSchema.safeParse(data)
+
+  if (!parsedExport.success) {
+    throw new Error(
+      'Invalid JSON structure: searchResults not found or not an array'
+    )
+  }
+
+  return parsedExport.data.searchResults.map((searchResult, index) => {
+    const prefix = `searchResults[${index}]`
+    const parsed = zillowSearchResultSchema.safeParse(searchResult)
+
+    if (!parsed.success) {
+      return {
+        index,
+        listing: null,
+        errors: parsed.error.issues.map((issue) => formatIssue(prefix, issue)),
+        warnings: [],
+      }
+    }
+
+    const record = validateListing(
+      index,
+      prefix,
+      mapZillowSearchResult(parsed.data)
+    )
+    if (!record.listing) return record
+
+    return {
+      ...record,
+      warnings: getListingWarnings(
+        record.listing,
+        (field) => `${prefix}.${fieldPaths[field] ?? field}`
+      ),
+    }
+  })
+}
+
+export const zillowAdapter: SourceAdapter = {
+  id: 'zillow',
+  label: 'Zillow search export (JSON)',
+  detect: (content, fileName) => {
+    if (!/\.json$/i.test(fileName)) return false
+    try {
+      return zillowExportSchema.safeParse(JSON.parse(content)).success
+    } catch {
+      return false
+    }
+  },
+  parse: (content) => validateZillowExport(JSON.parse(content)),
+}
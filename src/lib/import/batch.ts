@@ -0,0 +1,418 @@
+import { Prisma } from '@prisma/client'
+import { ActivityEntry, recordActivity } from '@/lib/activity'
+import { findOrCreateAgent, hasAgentChanges } from '@/lib/agents'
+import { toE164 } from '@/lib/phone'
+import { prisma } from '@/lib/prisma'
+import { addImportCounts, emptyImportCounts } from './counts'
+import { buildListingKey } from './listing-key'
+import { revalidateRecord } from './listing-schema'
+import {
+  buildSnapshot,
+  getPriceChangeData,
+  hasTrackedChanges,
+} from './snapshots'
+import {
+  buildImportActivity,
+  getSkipReason,
+  isEmptyPlan,
+  planListingUpdate,
+  upsertListing,
+} from './upsert'
+import {
+  ImportCounts,
+  ImportedListing,
+  ImportedProperty,
+  ImportSource,
+  ParsedRecord,
+  RecordOutcome,
+  UpsertResult,
+} from './types'
+
+interface CreateImportBatchOptions {
+  fileName: string
+  fileHash: string
+  source: ImportSource
+  recordCount: number
+  userId?: string | null
+  apiKeyId?: number
+}
+
+interface RunImportBatchOptions extends Omit<
+  CreateImportBatchOptions,
+  'recordCount'
+> {
+  records: ParsedRecord[]
+  chunkSize?: number
+}
+
+interface ListingToWrite {
+  index: number
+  listing: ImportedListing
+  listingKey: string
+}
+
+export const DEFAULT_CHUNK_SIZE = 200
+
+// Large chunks of updates can take a while inside one transaction
+const CHUNK_TRANSACTION_TIMEOUT = 60_000
+
+/**
+ * Start a new import batch. Records are added to it in chunks with
+ * `importRecords` and it is closed with `completeImportBatch`.
+ */
+export async function createImportBatch({
+  fileName,
+  fileHash,
+  source,
+  recordCount,
+  userId,
+  apiKeyId,
+}: CreateImportBatchOptions) {
+  return prisma.importBatch.create({
+    data: {
+      user_id: userId ?? null,
+      file_name: fileName,
+      file_hash: fileHash,
+      source,
+      record_count: recordCount,
+      api_key_id: apiKeyId,
+    },
+  })
+}
+
+/**
+ * Write a chunk of listings in a single transaction: one lookup for the
+ * existing properties, one insert for the new ones and one insert per image
+ * table. Changed properties still need an update each, and agents are
+ * looked up one listing at a time so listings of the same agent share it.
+ */
+async function writeListings(
+  batchId: number,
+  source: ImportSource,
+  items: ListingToWrite[],
+  userId: string | null
+): Promise<UpsertResult[]> {
+  return prisma.$transaction(
+    async (tx) => {
+      const existingProperties = await tx.property.findMany({
+        where: { listing_key: { in: items.map((item) => item.listingKey) } },
+        include: {
+          unstaged_images: true,
+          other_images: true,
+        },
+      })
+      const existingByKey = new Map(
+        existingProperties.map((property) => [property.listing_key, property])
+      )
+
+      const newItems = items.filter(
+        (item) => !existingByKey.has(item.listingKey)
+      )
+      const newAgentIds: (number | undefined)[] = []
+      for (const item of newItems) {
+        const agent = await findOrCreateAgent(tx, item.listing.property)
+        newAgentIds.push(agent?.id)
+      }
+
+      const created = await tx.property.createManyAndReturn({
+        data: newItems.map((item, i) => ({
+          ...item.listing.property,
+          listing_key: item.listingKey,
+          phone_e164: toE164(item.listing.property.phone_number),
+          agent_id: newAgentIds[i],
+          source,
+          import_batch_id: batchId,
+        })),
+        select: { id: true, listing_key: true },
+      })
+      const createdIdByKey = new Map(
+        created.map((property) => [property.listing_key, property.id])
+      )
+
+      const unstagedImages: Prisma.UnstagedImageCreateManyInput[] = []
+      const otherImages: Prisma.OtherImageCreateManyInput[] = []
+      const snapshots: Prisma.PropertySnapshotCreateManyInput[] = []
+      const activities: ActivityEntry[] = []
+      const updates: (Prisma.PropertyUpdateArgs & {
+        // Set when the agent has to be looked up again
+        agentDetails?: ImportedProperty
+      })[] = []
+
+      const results = items.map(({ listing, listingKey }): UpsertResult => {
+        const existing = existingByKey.get(listingKey)
+
+        if (!existing) {
+          const propertyId = createdIdByKey.get(listingKey)!
+          new Set(listing.unstaged_images).forEach((url) =>
+            unstagedImages.push({
+              property_id: propertyId,
+              unstaged_images: url,
+            })
+          )
+          new Set(listing.other_images).forEach((url) =>
+            otherImages.push({ property_id: propertyId, image_url: url })
+          )
+          snapshots.push(buildSnapshot(propertyId, listing.property, batchId))
+          activities.push(buildImportActivity(propertyId, batchId))
+          return { outcome: 'created', propertyId }
+        }
+
+        const plan = planListingUpdate(existing, listing)
+
+        if (isEmptyPlan(plan)) {
+          return { outcome: 'unchanged', propertyId: existing.id }
+        }
+
+        plan.newUnstagedImages.forEach((url) =>
+          unstagedImages.push({
+            property_id: existing.id,
+            unstaged_images: url,
+          })
+        )
+        plan.newOtherImages.forEach((url) =>
+          otherImages.push({ property_id: existing.id, image_url: url })
+        )
+        if (plan.changes.length > 0) {
+          updates.push({
+            where: { id: existing.id },
+            data: {
+              ...Object.fromEntries(
+                plan.changes.map((change) => [change.field, change.after])
+              ),
+              ...getPriceChangeData(plan.changes),
+              ...(plan.changes.some(
+                (change) => change.field === 'phone_number'
+              ) && { phone_e164: toE164(listing.property.phone_number) }),
+            },
+            agentDetails: hasAgentChanges(plan.changes)
+              ? listing.property
+              : undefined,
+          })
+        }
+        if (hasTrackedChanges(plan.changes)) {
+          snapshots.push(buildSnapshot(existing.id, listing.property, batchId))
+        }
+        activities.push(buildImportActivity(existing.id, batchId, plan.changes))
+
+        return { outcome: 'updated', propertyId: existing.id }
+      })
+
+      for (const { agentDetails, ...update } of updates) {
+        if (agentDetails) {
+          const agent = await findOrCreateAgent(tx, agentDetails)
+          update.data.agent_id = agent?.id ?? null
+        }
+        await tx.property.update(update)
+      }
+      await tx.unstagedImage.createMany({ data: unstagedImages })
+      await tx.otherImage.createMany({ data: otherImages })
+      await tx.propertySnapshot.createMany({ data: snapshots })
+      await recordActivity(userId, activities, tx)
+
+      return results
+    },
+    { timeout: CHUNK_TRANSACTION_TIMEOUT }
+  )
+}
+
+/**
+ * Counts of the records a chunk already recorded, or null when the chunk
+ * has not been imported yet
+ */
+async function getRecordedChunkCounts(batchId: number, chunkIndex: number) {
+  const outcomes = await prisma.importBatchRecord.groupBy({
+    by: ['outcome'],
+    where: { batch_id: batchId, chunk_index: chunkIndex },
+    _count: { _all: true },
+  })
+
+  if (outcomes.length === 0) return null
+
+  const counts = emptyImportCounts()
+  for (const { outcome, _count } of outcomes) {
+    counts[outcome as RecordOutcome] += _count._all
+  }
+  return counts
+}
+
+/**
+ * Import a chunk of records into a batch, recording the outcome of each one.
+ * If the chunk cannot be written as a whole, the records are retried one by
+ * one so a single bad record only fails itself.
+ *
+ * A chunk that is sent again, for example when resuming an upload whose
+ * progress was not saved, is not imported twice: the counts it recorded the
+ * first time are returned.
+ */
+export async function importRecords(
+  batchId: number,
+  source: ImportSource,
+  records: ParsedRecord[],
+  chunkIndex: number
+): Promise<ImportCounts> {
+  const recordedCounts = await getRecordedChunkCounts(batchId, chunkIndex)
+  if (recordedCounts) {
+    return recordedCounts
+  }
+
+  // Changes are logged against whoever started the import
+  const { user_id: userId } = await prisma.importBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    select: { user_id: true },
+  })
+
+  const counts = emptyImportCounts()
+  const batchRecords: Prisma.ImportBatchRecordCreateManyInput[] = []
+  const toWrite: ListingToWrite[] = []
+
+  // Listings already imported by earlier chunks of the batch
+  const listingKeys = records.flatMap(({ listing }) => {
+    const listingKey = listing && buildListingKey(listing.property)
+    return listingKey ? [listingKey] : []
+  })
+  const importedRecords = await prisma.importBatchRecord.findMany({
+    where: {
+      batch_id: batchId,
+      listing_key: { in: listingKeys },
+      outcome: { in: ['created', 'updated', 'unchanged'] },
+    },
+    select: { listing_key: true },
+  })
+  const seenKeys = new Set(importedRecords.map((record) => record.listing_key))
+
+  const addResult = (
+    index: number,
+    listing: ImportedListing | null,
+    result: { outcome: RecordOutcome; reason?: string; propertyId?: number }
+  ) => {
+    counts[result.outcome]++
+    batchRecords.push({
+      batch_id: batchId,
+      record_index: index,
+      chunk_index: chunkIndex,
+      listing_key: listing && buildListingKey(listing.property),
+      street_address: listing?.property.street_address ?? null,
+      outcome: result.outcome,
+      message: result.reason,
+      property_id: result.propertyId,
+    })
+  }
+
+  for (const { index, listing, errors } of records) {
+    // Records that failed validation are skipped with their errors
+    if (!listing) {
+      addResult(index, null, { outcome: 'skipped', reason: errors.join('; ') })
+      continue
+    }
+
+    const skipReason = getSkipReason(listing)
+    const listingKey = buildListingKey(listing.property)
+
+    if (skipReason || !listingKey) {
+      addResult(index, listing, {
+        outcome: 'skipped',
+        reason: skipReason ?? undefined,
+      })
+      continue
+    }
+
+    // Later copies of a listing in the same file are skipped
+    if (seenKeys.has(listingKey)) {
+      addResult(index, listing, {
+        outcome: 'skipped',
+        reason: 'Duplicate listing in this file',
+      })
+      continue
+    }
+    seenKeys.add(listingKey)
+
+    toWrite.push({ index, listing, listingKey })
+  }
+
+  try {
+    const results = await writeListings(batchId, source, toWrite, userId)
+    results.forEach((result, i) =>
+      addResult(toWrite[i].index, toWrite[i].listing, result)
+    )
+  } catch (chunkError) {
+    console.error('Error importing chunk, retrying records:', chunkError)
+
+    for (const { index, listing } of toWrite) {
+      try {
+        const result = await upsertListing(listing, {
+          batchId,
+          source,
+          userId,
+        })
+        addResult(index, listing, result)
+      } catch (propertyError) {
+        console.error('Error processing property:', propertyError)
+        addResult(index, listing, {
+          outcome: 'failed',
+          reason:
+            propertyError instanceof Error
+              ? propertyError.message
+              : 'Unknown error occurred',
+        })
+      }
+    }
+  }
+
+  // Recorded together so a chunk is either counted in full or not at all
+  await prisma.$transaction([
+    prisma.importBatchRecord.createMany({ data: batchRecords }),
+    prisma.importBatch.update({
+      where: { id: batchId },
+      data: {
+        created_count: { increment: counts.created },
+        updated_count: { increment: counts.updated },
+        unchanged_count: { increment: counts.unchanged },
+        skipped_count: { increment: counts.skipped },
+        failed_count: { increment: counts.failed },
+      },
+    }),
+  ])
+
+  return counts
+}
+
+/**
+ * Mark a batch as finished once all of its chunks are imported
+ */
+export async function completeImportBatch(batchId: number) {
+  return prisma.importBatch.update({
+    where: { id: batchId },
+    data: { status: 'completed' },
+  })
+}
+
+/**
+ * Import every record of a file as one batch, chunk by chunk.
+ * Used where the whole file is already on the server (CLI, API). Records
+ * are checked again like the ones the uploader sends.
+ */
+export async function runImportBatch({
+  records,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  ...options
+}: RunImportBatchOptions) {
+  const batch = await createImportBatch({
+    ...options,
+    recordCount: records.length,
+  })
+  let counts = emptyImportCounts()
+
+  for (let i = 0; i < records.length; i += chunkSize) {
+    const chunkCounts = await importRecords(
+      batch.id,
+      options.source,
+      records.slice(i, i + chunkSize).map(revalidateRecord),
+      i / chunkSize
+    )
+    counts = addImportCounts(counts, chunkCounts)
+  }
+
+  await completeImportBatch(batch.id)
+
+  return { batchId: batch.id, counts }
+}
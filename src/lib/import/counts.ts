@@ -0,0 +1,20 @@
+import { ImportCounts } from './types'
+
+export const emptyImportCounts = (): ImportCounts => ({
+  created: 0,
+  updated: 0,
+  unchanged: 0,
+  skipped: 0,
+  failed: 0,
+})
+
+export const addImportCounts = (
+  a: ImportCounts,
+  b: ImportCounts
+): ImportCounts => ({
+  created: a.created + b.created,
+  updated: a.updated + b.updated,
+  unchanged: a.unchanged + b.unchanged,
+  skipped: a.skipped + b.skipped,
+  failed: a.failed + b.failed,
+})
@@ -0,0 +1,13 @@
+/**
+ * SHA-256 of a file's contents, used to spot the same export uploaded twice.
+ * Uses Web Crypto so the browser, server and CLI produce the same hash.
+ */
+export async function hashFileContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content)
+  )
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
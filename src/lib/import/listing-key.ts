@@ -0,0 +1,42 @@
+import type { ImportedProperty } from './types'
+
+/**
+ * Lowercases a street address and collapses punctuation and whitespace so
+ * "123 Main St." and "123  main st" produce the same value
+ */
+export function normalizeStreetAddress(streetAddress: string): string {
+  return streetAddress
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Reduces a zipcode to its five digit form
+ */
+export function normalizeZipcode(zipcode: string): string {
+  return zipcode.replace(/\D/g, '').slice(0, 5)
+}
+
+/**
+ * Builds the natural key used to recognize a listing across imports from
+ * its address alone, since the same listing is not always exported with its
+ * building id. Returns null when the listing has no usable street address
+ * or zipcode.
+ *
+ * Keep in sync with the key_listings_by_address migration.
+ */
+export function buildListingKey(
+  property: Pick<ImportedProperty, 'street_address' | 'zipcode'>
+): string | null {
+  const streetAddress = property.street_address
+    ? normalizeStreetAddress(property.street_address)
+    : ''
+  const zipcode = property.zipcode ? normalizeZipcode(property.zipcode) : ''
+
+  if (!streetAddress || !zipcode) {
+    return null
+  }
+
+  return [streetAddress, zipcode].join('|')
+}
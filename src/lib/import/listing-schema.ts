@@ -0,0 +1,144 @@
+import { z } from 'zod'
+import { IMPORTED_PROPERTY_FIELDS, ImportedListing, ParsedRecord } from './types'
+
+const optionalText = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => value || null)
+
+/**
+ * The listing shape every source adapter produces, validated the same way
+ * no matter where the data came from
+ */
+export const importedListingSchema = z.object({
+  property: z.object({
+    street_address: z.string().trim().min(1, 'street address is required'),
+    zipcode: z.string().trim().min(1, 'zipcode is required'),
+    city: optionalText,
+    state: optionalText,
+    building_id: optionalText,
+    listing_status: optionalText,
+    price: z.number().nonnegative().nullish().transform((value) => value ?? null),
+    display_name: optionalText,
+    business_name: optionalText,
+    phone_number: optionalText,
+    agent_badge_type: optionalText,
+    photo_url: optionalText,
+    profile_url: optionalText,
+    days_on_zillow: z
+      .number()
+      .int()
+      .nonnegative()
+      .nullish()
+      .transform((value) => value ?? null),
+  }),
+  unstaged_images: z.array(z.string().url()),
+  other_images: z.array(z.string().url()),
+}) satisfies z.ZodType<ImportedListing, z.ZodTypeDef, unknown>
+
+/**
+ * Formats a zod issue path the way it appears in the source file,
+ * e.g. searchResults[14].property.price.value
+ */
+export function formatPath(prefix: string, path: (string | number)[]) {
+  return path.reduce<string>(
+    (formatted, segment) =>
+      typeof segment === 'number'
+        ? `${formatted}[${segment}]`
+        : `${formatted}.${segment}`,
+    prefix
+  )
+}
+
+export function formatIssue(prefix: string, issue: z.ZodIssue) {
+  const message =
+    issue.code === 'invalid_type'
+      ? issue.received === 'undefined' || issue.received === 'null'
+        ? 'required'
+        : `expected ${issue.expected}, received ${issue.received}`
+      : issue.message
+  return `${formatPath(prefix, issue.path)}: ${message}`
+}
+
+/**
+ * Fields that are not required to import a listing but make it much less
+ * useful when they are missing. `fieldPath` maps a property field onto its
+ * location in the source record.
+ */
+export function getListingWarnings(
+  listing: ImportedListing,
+  fieldPath: (field: (typeof IMPORTED_PROPERTY_FIELDS)[number]) => string
+): string[] {
+  const warnings: string[] = []
+
+  if (!listing.property.display_name) {
+    warnings.push(`${fieldPath('display_name')}: missing agent name`)
+  }
+  if (!listing.property.phone_number) {
+    warnings.push(`${fieldPath('phone_number')}: missing agent phone`)
+  }
+  if (listing.property.price === null) {
+    warnings.push(`${fieldPath('price')}: missing price`)
+  }
+
+  return warnings
+}
+
+/**
+ * Validate a listing assembled by an adapter. `prefix` locates the record
+ * in the source file for error messages.
+ */
+export function validateListing(
+  index: number,
+  prefix: string,
+  input: unknown
+): ParsedRecord {
+  const parsed = importedListingSchema.safeParse(input)
+
+  if (!parsed.success) {
+    return {
+      index,
+      listing: null,
+      errors: parsed.error.issues.map((issue) =>
+        formatIssue(prefix, {
+          ...issue,
+          // Report property fields directly under the record prefix
+          path: issue.path[0] === 'property' ? issue.path.slice(1) : issue.path,
+        })
+      ),
+      warnings: [],
+    }
+  }
+
+  return {
+    index,
+    listing: parsed.data,
+    errors: [],
+    warnings: getListingWarnings(parsed.data, (field) => `${prefix}.${field}`),
+  }
+}
+
+/**
+ * Check a record parsed in the browser again before it is written, so the
+ * server never trusts a listing it has not validated itself
+ */
+export function revalidateRecord(record: ParsedRecord): ParsedRecord {
+  if (!record.listing) {
+    return { ...record, errors: record.errors.map(String) }
+  }
+
+  const parsed = importedListingSchema.safeParse(record.listing)
+
+  if (!parsed.success) {
+    return {
+      ...record,
+      listing: null,
+      errors: parsed.error.issues.map((issue) =>
+        formatIssue(`record[${record.index}]`, issue)
+      ),
+    }
+  }
+
+  return { ...record, listing: parsed.data }
+}
@@ -0,0 +1,78 @@
+import { prisma } from '@/lib/prisma'
+import { buildListingKey } from './listing-key'
+import { getSkipReason, isEmptyPlan, planListingUpdate } from './upsert'
+import { ParsedRecord, PreviewRow } from './types'
+
+/**
+ * Work out what publishing each record would do without writing anything.
+ * Listings are looked up in a single query by their listing key.
+ */
+export async function previewRecords(
+  records: ParsedRecord[]
+): Promise<PreviewRow[]> {
+  const keys = records
+    .map((record) => record.listing && buildListingKey(record.listing.property))
+    .filter((key): key is string => !!key)
+
+  const existingProperties = await prisma.property.findMany({
+    where: { listing_key: { in: keys } },
+    include: {
+      unstaged_images: true,
+      other_images: true,
+    },
+  })
+  const existingByKey = new Map(
+    existingProperties.map((property) => [property.listing_key, property])
+  )
+  const firstIndexByKey = new Map<string, number>()
+
+  return records.map(({ index, listing, errors, warnings }) => {
+    const row: PreviewRow = {
+      index,
+      street_address: listing?.property.street_address ?? null,
+      outcome: 'skipped',
+      changes: [],
+      newImageCount: 0,
+      warnings,
+    }
+
+    if (!listing) {
+      return { ...row, reason: errors.join('; ') }
+    }
+
+    const skipReason = getSkipReason(listing)
+    const listingKey = buildListingKey(listing.property)
+
+    if (skipReason || !listingKey) {
+      return { ...row, reason: skipReason ?? undefined }
+    }
+
+    const duplicateOf = firstIndexByKey.get(listingKey)
+    if (duplicateOf !== undefined) {
+      return { ...row, reason: `Duplicate of record ${duplicateOf + 1}` }
+    }
+    firstIndexByKey.set(listingKey, index)
+
+    const existing = existingByKey.get(listingKey)
+    if (!existing) {
+      return {
+        ...row,
+        outcome: 'created',
+        newImageCount:
+          new Set(listing.unstaged_images).size +
+          new Set(listing.other_images).size,
+      }
+    }
+
+    const plan = planListingUpdate(existing, listing)
+
+    return {
+      ...row,
+      outcome: isEmptyPlan(plan) ? 'unchanged' : 'updated',
+      propertyId: existing.id,
+      changes: plan.changes,
+      newImageCount:
+        plan.newUnstagedImages.length + plan.newOtherImages.length,
+    }
+  })
+}
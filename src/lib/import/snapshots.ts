@@ -0,0 +1,54 @@
+import type { Prisma } from '@prisma/client'
+import { FieldChange, ImportedProperty, ImportedPropertyField } from './types'
+
+// Fields whose earlier values are kept when a re-import changes them
+export const TRACKED_FIELDS = [
+  'price',
+  'listing_status',
+  'days_on_zillow',
+] as const satisfies readonly ImportedPropertyField[]
+
+type TrackedValues = Pick<ImportedProperty, (typeof TRACKED_FIELDS)[number]>
+
+/**
+ * True when an import changes any field we keep history for
+ */
+export function hasTrackedChanges(changes: FieldChange[]) {
+  return changes.some((change) =>
+    (TRACKED_FIELDS as readonly string[]).includes(change.field)
+  )
+}
+
+/**
+ * Snapshot row recording a property's tracked values after an import
+ */
+export function buildSnapshot(
+  propertyId: number,
+  values: TrackedValues,
+  batchId?: number
+): Prisma.PropertySnapshotCreateManyInput {
+  return {
+    property_id: propertyId,
+    import_batch_id: batchId,
+    price: values.price,
+    listing_status: values.listing_status,
+    days_on_zillow: values.days_on_zillow,
+  }
+}
+
+/**
+ * Extra property fields to write when an import changes the price, so the
+ * workbench can show the change since the last import
+ */
+export function getPriceChangeData(
+  changes: FieldChange[]
+): Prisma.PropertyUpdateInput {
+  const priceChange = changes.find((change) => change.field === 'price')
+  if (!priceChange) {
+    return {}
+  }
+  return {
+    previous_price: priceChange.before as number | null,
+    price_changed_at: new Date(),
+  }
+}
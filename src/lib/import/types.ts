@@ -0,0 +1,112 @@
+import type { Property } from '@prisma/client'
+
+/**
+ * Property columns populated from an import. Everything else on the
+ * property (notes, contacted status, generated images) belongs to the team
+ * and is never touched by a re-import.
+ */
+export const IMPORTED_PROPERTY_FIELDS = [
+  'street_address',
+  'zipcode',
+  'city',
+  'state',
+  'building_id',
+  'listing_status',
+  'price',
+  'display_name',
+  'business_name',
+  'phone_number',
+  'agent_badge_type',
+  'photo_url',
+  'profile_url',
+  'days_on_zillow',
+] as const satisfies readonly (keyof Property)[]
+
+export type ImportedPropertyField = (typeof IMPORTED_PROPERTY_FIELDS)[number]
+
+export type ImportedProperty = Pick<Property, ImportedPropertyField>
+
+/**
+ * A single listing ready to be written to the database
+ */
+export interface ImportedListing {
+  property: ImportedProperty
+  unstaged_images: string[]
+  other_images: string[]
+}
+
+/**
+ * A raw record after validation. `listing` is null when the record has
+ * errors that stop it from being imported.
+ */
+export interface ParsedRecord {
+  index: number
+  listing: ImportedListing | null
+  errors: string[]
+  warnings: string[]
+}
+
+export type UpsertOutcome = 'created' | 'updated' | 'unchanged' | 'skipped'
+
+/**
+ * Outcome recorded per record on an import batch. `failed` means an
+ * unexpected error, as opposed to a record we deliberately skipped.
+ */
+export type RecordOutcome = UpsertOutcome | 'failed'
+
+export type ImportBatchStatus = 'processing' | 'completed' | 'rolled_back'
+
+export type ImportCounts = Record<RecordOutcome, number>
+
+export interface UpsertResult {
+  outcome: UpsertOutcome
+  propertyId?: number
+  reason?: string
+}
+
+export interface FieldChange {
+  field: ImportedPropertyField
+  before: string | number | null
+  after: string | number | null
+}
+
+/**
+ * What publishing a single record would do, as shown in the dry-run preview
+ */
+export interface PreviewRow {
+  index: number
+  street_address: string | null
+  outcome: UpsertOutcome
+  reason?: string
+  propertyId?: number
+  changes: FieldChange[]
+  newImageCount: number
+  warnings: string[]
+}
+
+/**
+ * Where a listing came from. Stored on the property and the import batch.
+ */
+export type ImportSource = 'zillow' | 'csv' | 'json-lines'
+
+/**
+ * Fields a CSV column or flat JSON key can be mapped onto. Image fields
+ * hold one or more URLs.
+ */
+export type MappableField = ImportedPropertyField | 'unstaged_images' | 'other_images'
+
+export type ColumnMapping = Partial<Record<MappableField, string>>
+
+export interface AdapterOptions {
+  columnMapping?: ColumnMapping
+}
+
+/**
+ * Turns the raw contents of an uploaded file into validated records
+ */
+export interface SourceAdapter {
+  id: ImportSource
+  label: string
+  detect: (content: string, fileName: string) => boolean
+  parse: (content: string, options?: AdapterOptions) => ParsedRecord[]
+}
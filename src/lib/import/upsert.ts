@@ -0,0 +1,244 @@
+import type { OtherImage, UnstagedImage } from '@prisma/client'
+import { ActivityEntry, recordActivity } from '@/lib/activity'
+import { findOrCreateAgent, hasAgentChanges } from '@/lib/agents'
+import { toE164 } from '@/lib/phone'
+import { prisma } from '@/lib/prisma'
+import { buildListingKey } from './listing-key'
+import {
+  buildSnapshot,
+  getPriceChangeData,
+  hasTrackedChanges,
+} from './snapshots'
+import {
+  FieldChange,
+  IMPORTED_PROPERTY_FIELDS,
+  ImportedListing,
+  ImportedProperty,
+  ImportSource,
+  UpsertResult,
+} from './types'
+
+interface ExistingListing extends ImportedProperty {
+  unstaged_images: UnstagedImage[]
+  other_images: OtherImage[]
+}
+
+interface ListingUpdatePlan {
+  changes: FieldChange[]
+  newUnstagedImages: string[]
+  newOtherImages: string[]
+}
+
+/**
+ * Returns why a listing cannot be imported, or null if it can
+ */
+export function getSkipReason(listing: ImportedListing): string | null {
+  if (listing.unstaged_images.length === 0) {
+    return 'No unstaged photos'
+  }
+  if (!buildListingKey(listing.property)) {
+    return 'Missing street address or zipcode'
+  }
+  return null
+}
+
+/**
+ * Returns the image URLs from `incoming` that are not already stored,
+ * without duplicates
+ */
+export function getNewImageUrls(existing: string[], incoming: string[]) {
+  const known = new Set(existing)
+  return [...new Set(incoming)].filter((url) => !known.has(url))
+}
+
+/**
+ * Compares an imported listing against the stored property and works out
+ * which fields changed and which image URLs are new
+ */
+export function planListingUpdate(
+  existing: ExistingListing,
+  listing: ImportedListing
+): ListingUpdatePlan {
+  const changes: FieldChange[] = []
+
+  for (const field of IMPORTED_PROPERTY_FIELDS) {
+    if (existing[field] !== listing.property[field]) {
+      changes.push({
+        field,
+        before: existing[field],
+        after: listing.property[field],
+      })
+    }
+  }
+
+  return {
+    changes,
+    newUnstagedImages: getNewImageUrls(
+      existing.unstaged_images.map((image) => image.unstaged_images),
+      listing.unstaged_images
+    ),
+    newOtherImages: getNewImageUrls(
+      existing.other_images.map((image) => image.image_url),
+      listing.other_images
+    ),
+  }
+}
+
+/**
+ * True when applying the plan would not modify anything
+ */
+export function isEmptyPlan(plan: ListingUpdatePlan) {
+  return (
+    plan.changes.length === 0 &&
+    plan.newUnstagedImages.length === 0 &&
+    plan.newOtherImages.length === 0
+  )
+}
+
+/**
+ * Activity log entry for a property an import created, or updated with
+ * `changes`
+ */
+export function buildImportActivity(
+  propertyId: number,
+  batchId: number | undefined,
+  changes?: FieldChange[]
+): ActivityEntry {
+  const importBatchId = batchId ?? null
+
+  if (!changes) {
+    return {
+      propertyId,
+      action: 'import_create',
+      after: { import_batch_id: importBatchId },
+    }
+  }
+
+  return {
+    propertyId,
+    action: 'import_update',
+    before: Object.fromEntries(
+      changes.map((change) => [change.field, change.before])
+    ),
+    after: {
+      ...Object.fromEntries(
+        changes.map((change) => [change.field, change.after])
+      ),
+      import_batch_id: importBatchId,
+    },
+  }
+}
+
+/**
+ * Create or update a property from an imported listing.
+ * Existing properties are matched on their listing key; changed fields are
+ * updated and only image URLs we have not seen before are appended. The
+ * phone number is parsed to E.164 and the property is linked to its agent,
+ * who is shared with their other listings. The change is logged against
+ * `userId`, or the system when there is none.
+ */
+export async function upsertListing(
+  listing: ImportedListing,
+  {
+    batchId,
+    source,
+    userId,
+  }: { batchId?: number; source?: ImportSource; userId?: string | null } = {}
+): Promise<UpsertResult> {
+  const skipReason = getSkipReason(listing)
+  const listingKey = buildListingKey(listing.property)
+
+  if (skipReason || !listingKey) {
+    return { outcome: 'skipped', reason: skipReason ?? undefined }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.property.findUnique({
+      where: { listing_key: listingKey },
+      include: {
+        unstaged_images: true,
+        other_images: true,
+      },
+    })
+
+    if (!existing) {
+      const agent = await findOrCreateAgent(tx, listing.property)
+      const property = await tx.property.create({
+        data: {
+          ...listing.property,
+          listing_key: listingKey,
+          phone_e164: toE164(listing.property.phone_number),
+          agent_id: agent?.id,
+          source,
+          import_batch_id: batchId,
+          unstaged_images: {
+            create: [...new Set(listing.unstaged_images)].map((url) => ({
+              unstaged_images: url,
+            })),
+          },
+          other_images: {
+            create: [...new Set(listing.other_images)].map((url) => ({
+              image_url: url,
+            })),
+          },
+        },
+      })
+      await tx.propertySnapshot.create({
+        data: buildSnapshot(property.id, listing.property, batchId),
+      })
+      await recordActivity(
+        userId,
+        [buildImportActivity(property.id, batchId)],
+        tx
+      )
+
+      return { outcome: 'created', propertyId: property.id }
+    }
+
+    const plan = planListingUpdate(existing, listing)
+
+    if (isEmptyPlan(plan)) {
+      return { outcome: 'unchanged', propertyId: existing.id }
+    }
+
+    const agent = hasAgentChanges(plan.changes)
+      ? await findOrCreateAgent(tx, listing.property)
+      : undefined
+
+    await tx.property.update({
+      where: { id: existing.id },
+      data: {
+        ...Object.fromEntries(
+          plan.changes.map((change) => [change.field, change.after])
+        ),
+        ...getPriceChangeData(plan.changes),
+        ...(plan.changes.some((change) => change.field === 'phone_number') && {
+          phone_e164: toE164(listing.property.phone_number),
+        }),
+        ...(agent !== undefined && {
+          agent: agent ? { connect: { id: agent.id } } : { disconnect: true },
+        }),
+        unstaged_images: {
+          create: plan.newUnstagedImages.map((url) => ({
+            unstaged_images: url,
+          })),
+        },
+        other_images: {
+          create: plan.newOtherImages.map((url) => ({ image_url: url })),
+        },
+      },
+    })
+    if (hasTrackedChanges(plan.changes)) {
+      await tx.propertySnapshot.create({
+        data: buildSnapshot(existing.id, listing.property, batchId),
+      })
+    }
+    await recordActivity(
+      userId,
+      [buildImportActivity(existing.id, batchId, plan.changes)],
+      tx
+    )
+
+    return { outcome: 'updated', propertyId: existing.id }
+  })
+}
@@ -0,0 +1,47 @@
+/**
+ * Stages a lead moves through, in pipeline order. Converted and lost are
+ * the two ways a lead leaves the pipeline.
+ */
+export const LEAD_STAGES = {
+  new: { label: 'New', badgeClass: 'bg-blue-100 text-blue-800' },
+  staged: { label: 'Staged', badgeClass: 'bg-indigo-100 text-indigo-800' },
+  contacted: {
+    label: 'Contacted',
+    badgeClass: 'bg-yellow-100 text-yellow-800',
+  },
+  replied: { label: 'Replied', badgeClass: 'bg-orange-100 text-orange-800' },
+  interested: {
+    label: 'Interested',
+    badgeClass: 'bg-purple-100 text-purple-800',
+  },
+  converted: { label: 'Converted', badgeClass: 'bg-green-100 text-green-800' },
+  lost: { label: 'Lost', badgeClass: 'bg-gray-200 text-gray-700' },
+} as const satisfies Record<string, { label: string; badgeClass: string }>
+
+export type LeadStage = keyof typeof LEAD_STAGES
+
+export const LEAD_STAGE_IDS = Object.keys(LEAD_STAGES) as LeadStage[]
+
+export function isLeadStage(value: string): value is LeadStage {
+  return Object.hasOwn(LEAD_STAGES, value)
+}
+
+/**
+ * Display details for a stage stored on a property, tolerating values
+ * that are no longer part of the pipeline
+ */
+export function getLeadStage(stage: string) {
+  return isLeadStage(stage)
+    ? LEAD_STAGES[stage]
+    : { label: stage, badgeClass: 'bg-gray-100 text-gray-700' }
+}
+
+/**
+ * True when a lead in `stage` has not reached `target` in the pipeline yet
+ */
+export function isBeforeStage(stage: string, target: LeadStage) {
+  return (
+    isLeadStage(stage) &&
+    LEAD_STAGE_IDS.indexOf(stage) < LEAD_STAGE_IDS.indexOf(target)
+  )
+}
@@ -0,0 +1,93 @@
+/**
+ * Teammates are mentioned in notes as @handle, where the handle is the part
+ * of their email address before the @
+ */
+const MENTION_PATTERN = /(^|[^\w@])@([a-z0-9][\w.-]*)/gi
+
+// Handle being typed right before the caret, e.g. "@ja"
+const PARTIAL_MENTION_PATTERN = /(?:^|[^\w@])@([\w.-]*)$/
+
+export interface Teammate {
+  id: string
+  name: string | null
+  email: string
+}
+
+export function getMentionHandle(email: string) {
+  return email.split('@')[0].toLowerCase()
+}
+
+// Sentences often end right after a mention
+function trimHandle(handle: string) {
+  return handle.replace(/[.-]+$/, '').toLowerCase()
+}
+
+/**
+ * Distinct handles mentioned in a note
+ */
+export function findMentionHandles(text: string) {
+  return [
+    ...new Set(
+      Array.from(text.matchAll(MENTION_PATTERN), (match) =>
+        trimHandle(match[2])
+      )
+    ),
+  ]
+}
+
+/**
+ * Split a note into plain text and mentions of known handles, for display
+ */
+export function splitMentions(text: string, handles: Set<string>) {
+  const parts: { text: string; isMention: boolean }[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = trimHandle(match[2])
+    if (!handles.has(handle)) continue
+
+    const start = match.index + match[1].length
+    const end = start + 1 + handle.length
+    parts.push({ text: text.slice(lastIndex, start), isMention: false })
+    parts.push({ text: text.slice(start, end), isMention: true })
+    lastIndex = end
+  }
+  parts.push({ text: text.slice(lastIndex), isMention: false })
+
+  return parts.filter((part) => part.text)
+}
+
+/**
+ * Partial handle being typed at the caret, or null when the caret is not
+ * in a mention
+ */
+export function getPartialMention(text: string, caret: number) {
+  const match = text.slice(0, caret).match(PARTIAL_MENTION_PATTERN)
+  return match ? match[1].toLowerCase() : null
+}
+
+/**
+ * Teammates whose handle or name starts with a partial handle
+ */
+export function getMentionSuggestions(partial: string, teammates: Teammate[]) {
+  return teammates
+    .filter(
+      (teammate) =>
+        getMentionHandle(teammate.email).startsWith(partial) ||
+        teammate.name?.toLowerCase().startsWith(partial)
+    )
+    .slice(0, 5)
+}
+
+/**
+ * Replace the partial mention before the caret with a full one, returning
+ * the new text and caret position
+ */
+export function applyMention(text: string, caret: number, teammate: Teammate) {
+  const before = text.slice(0, caret).replace(/@[\w.-]*$/, '')
+  const mention = `@${getMentionHandle(teammate.email)} `
+  return {
+    text: `${before}${mention}${text.slice(caret)}`,
+    caret: before.length + mention.length,
+  }
+}
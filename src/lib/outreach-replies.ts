@@ -0,0 +1,42 @@
+import type { Prisma } from '@prisma/client'
+import { LeadStage } from '@/lib/lead-stages'
+
+// Stages a lead only reaches once the agent answered
+const REPLIED_STAGES: string[] = [
+  'replied',
+  'interested',
+  'converted',
+] satisfies LeadStage[]
+
+/**
+ * Credit the latest email sent about each property with a reply, when its
+ * lead moves from waiting on the agent to a stage that means they answered.
+ * This is what the reply rates of template variants are counted from.
+ *
+ * Keep in sync with the backfill in the add_outreach_templates migration.
+ */
+export async function recordOutreachReplies(
+  tx: Prisma.TransactionClient,
+  moves: { propertyId: number; fromStage: string }[],
+  toStage: LeadStage,
+  repliedAt: Date
+) {
+  if (!REPLIED_STAGES.includes(toStage)) return
+
+  const propertyIds = moves
+    .filter((move) => !REPLIED_STAGES.includes(move.fromStage))
+    .map((move) => move.propertyId)
+  if (propertyIds.length === 0) return
+
+  const latestEmails = await tx.outreachEmail.findMany({
+    where: { property_id: { in: propertyIds } },
+    distinct: ['property_id'],
+    orderBy: [{ property_id: 'asc' }, { sent_at: 'desc' }],
+    select: { id: true },
+  })
+
+  await tx.outreachEmail.updateMany({
+    where: { id: { in: latestEmails.map(({ id }) => id) }, replied_at: null },
+    data: { replied_at: repliedAt },
+  })
+}
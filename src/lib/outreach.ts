@@ -0,0 +1,138 @@
+import type { Property } from '@prisma/client'
+
+/**
+ * Merge fields a template can use as {{field}}
+ */
+export const MERGE_FIELDS = {
+  agent_first_name: 'Agent first name, or "there" when unknown',
+  agent_name: 'Agent full name',
+  business_name: 'Agent business name',
+  street_address: 'Street address',
+  city: 'City',
+  state: 'State',
+  zipcode: 'Zipcode',
+  price: 'Listing price, e.g. $450,000',
+  days_on_zillow: 'Days on Zillow when scraped',
+  sender_name: 'Your name',
+} as const satisfies Record<string, string>
+
+export type MergeField = keyof typeof MERGE_FIELDS
+
+export type MergeValues = Record<MergeField, string>
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export type MergeProperty = Pick<
+  Property,
+  | 'display_name'
+  | 'business_name'
+  | 'street_address'
+  | 'city'
+  | 'state'
+  | 'zipcode'
+  | 'price'
+  | 'days_on_zillow'
+>
+
+/**
+ * Values for the merge fields of an email about a property
+ */
+export function getMergeValues(
+  property: MergeProperty,
+  senderName: string | null | undefined
+): MergeValues {
+  const agentName = property.display_name?.trim() ?? ''
+
+  return {
+    agent_first_name: agentName.split(/\s+/)[0] || 'there',
+    agent_name: agentName,
+    business_name: property.business_name ?? '',
+    street_address: property.street_address ?? '',
+    city: property.city ?? '',
+    state: property.state ?? '',
+    zipcode: property.zipcode ?? '',
+    price:
+      property.price !== null
+        ? `$${property.price.toLocaleString('en-US')}`
+        : '',
+    days_on_zillow: property.days_on_zillow?.toString() ?? '',
+    sender_name: senderName ?? '',
+  }
+}
+
+/**
+ * Replace {{field}} placeholders with their values. Unknown fields are
+ * left as they are so they stand out before sending.
+ */
+export function renderTemplate(text: string, values: MergeValues) {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, field: string) =>
+    Object.hasOwn(values, field) ? values[field as MergeField] : placeholder
+  )
+}
+
+/**
+ * Distinct placeholders in a template that are not merge fields, such as a
+ * misspelled {{stret_address}}
+ */
+export function findUnknownMergeFields(text: string) {
+  return [
+    ...new Set(
+      Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])
+    ),
+  ].filter((field) => !Object.hasOwn(MERGE_FIELDS, field))
+}
+
+// Variants are labelled A to Z
+export const MAX_TEMPLATE_VARIANTS = 26
+
+/**
+ * Pick one of a template's variants at random, so each gets a fair share
+ * of the sends
+ */
+export function pickVariant<T>(variants: T[]): T | null {
+  return variants.length > 0
+    ? variants[Math.floor(Math.random() * variants.length)]
+    : null
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderImages(title: string, urls: string[]) {
+  if (urls.length === 0) return ''
+
+  return `<h3>${title}</h3>${urls
+    .map(
+      (url) =>
+        `<p><img src="${escapeHtml(url)}" alt="${title}" style="max-width: 100%;" /></p>`
+    )
+    .join('')}`
+}
+
+/**
+ * HTML version of a plain text email, followed by the before and after
+ * images shown inline
+ */
+export function buildOutreachHtml(
+  body: string,
+  images: { before: string[]; after: string[] }
+) {
+  const paragraphs = body
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`
+    )
+    .join('')
+
+  return `<div>${paragraphs}${renderImages('Before', images.before)}${renderImages(
+    'After',
+    images.after
+  )}</div>`
+}
@@ -0,0 +1,29 @@
+// Numbers written without a country code are assumed to be from the US
+const DEFAULT_COUNTRY_CODE = '1'
+
+/**
+ * Parses a phone number however it was formatted, e.g. "(555) 123-4567",
+ * "555.123.4567" or "+1 555 123 4567", into E.164 form ("+15551234567").
+ * Returns null when it is not a complete phone number.
+ */
+export function toE164(phoneNumber: string | null) {
+  if (!phoneNumber) return null
+
+  // Extensions are not part of the number
+  const number = phoneNumber.split(/\s*(?:x|ext\.?|extension|#)\s*\d*$/i)[0]
+  const digits = number.replace(/\D/g, '')
+
+  if (number.trim().startsWith('+') || number.trim().startsWith('00')) {
+    const international = digits.replace(/^00/, '')
+    return international.length >= 8 && international.length <= 15
+      ? `+${international}`
+      : null
+  }
+  if (digits.length === 10 && /^[2-9]/.test(digits)) {
+    return `+${DEFAULT_COUNTRY_CODE}${digits}`
+  }
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return `+${digits}`
+  }
+  return null
+}
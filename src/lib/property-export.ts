@@ -0,0 +1,51 @@
+import type { Property } from '@prisma/client'
+import { IMPORTED_PROPERTY_FIELDS } from '@/lib/import/types'
+
+/**
+ * Columns in a property export. The imported fields keep their own names so
+ * an export can be fed back through the CSV importer. Notes are the
+ * property's note thread as one block of text.
+ */
+export const PROPERTY_EXPORT_COLUMNS = [
+  'id',
+  ...IMPORTED_PROPERTY_FIELDS,
+  'stage',
+  'tags',
+  'notes',
+  'source',
+  'created_at',
+  'updated_at',
+] as const satisfies readonly (keyof Property | 'notes')[]
+
+export type ExportedProperty = Pick<
+  Property,
+  Exclude<(typeof PROPERTY_EXPORT_COLUMNS)[number], 'notes'>
+> & { notes: string }
+
+function formatCsvCell(value: unknown) {
+  if (value === null || value === undefined) return ''
+
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value)
+        ? value.join(', ')
+        : String(value)
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Properties as CSV text with a header row
+ */
+export function buildPropertyCsv(properties: ExportedProperty[]) {
+  const rows = [
+    PROPERTY_EXPORT_COLUMNS.join(','),
+    ...properties.map((property) =>
+      PROPERTY_EXPORT_COLUMNS.map((column) =>
+        formatCsvCell(property[column])
+      ).join(',')
+    ),
+  ]
+  return `${rows.join('\r\n')}\r\n`
+}
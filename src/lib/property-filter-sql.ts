@@ -0,0 +1,171 @@
+import { Prisma } from '@prisma/client'
+
+// Relations a filter can ask to have some or no rows, with their tables
+const RELATION_TABLES: Record<string, string> = {
+  generated_images: 'generated_images',
+  unstaged_images: 'unstaged_images',
+  other_images: 'other_images',
+  notes: 'property_note',
+}
+
+interface ScalarFilter {
+  equals?: string | number | null
+  mode?: Prisma.QueryMode
+  contains?: string
+  startsWith?: string
+  lt?: number
+  lte?: number
+  gt?: number
+  gte?: number
+  not?: string | number | null
+  has?: string
+}
+
+const RANGE_OPERATORS = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const
+
+/**
+ * Escape the wildcards of a LIKE pattern
+ */
+export function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+function unsupported(description: string): never {
+  throw new Error(`Unsupported property filter: ${description}`)
+}
+
+function column(field: string) {
+  if (!Object.hasOwn(Prisma.PropertyScalarFieldEnum, field)) {
+    unsupported(`unknown field ${field}`)
+  }
+  return Prisma.raw(`"property"."${field}"`)
+}
+
+function joinConditions(conditions: Prisma.Sql[], separator: 'AND' | 'OR') {
+  if (conditions.length === 0) {
+    return separator === 'AND' ? Prisma.sql`true` : Prisma.sql`false`
+  }
+  return Prisma.sql`(${Prisma.join(conditions, ` ${separator} `)})`
+}
+
+function buildFieldCondition(field: string, value: unknown): Prisma.Sql {
+  const ref = column(field)
+
+  if (value === null) return Prisma.sql`${ref} IS NULL`
+  if (typeof value !== 'object') return Prisma.sql`${ref} = ${value}`
+
+  const filter = value as ScalarFilter
+  const isInsensitive = filter.mode === 'insensitive'
+  const conditions: Prisma.Sql[] = []
+
+  for (const [operator, operand] of Object.entries(filter)) {
+    if (operand === undefined || operator === 'mode') continue
+
+    switch (operator) {
+      case 'equals':
+        conditions.push(
+          operand === null
+            ? Prisma.sql`${ref} IS NULL`
+            : isInsensitive
+              ? Prisma.sql`lower(${ref}) = lower(${operand})`
+              : Prisma.sql`${ref} = ${operand}`
+        )
+        break
+      case 'not':
+        conditions.push(
+          operand === null
+            ? Prisma.sql`${ref} IS NOT NULL`
+            : Prisma.sql`${ref} <> ${operand}`
+        )
+        break
+      case 'contains':
+      case 'startsWith': {
+        const pattern = `${operator === 'contains' ? '%' : ''}${escapeLike(
+          operand as string
+        )}%`
+        conditions.push(
+          isInsensitive
+            ? Prisma.sql`${ref} ILIKE ${pattern}`
+            : Prisma.sql`${ref} LIKE ${pattern}`
+        )
+        break
+      }
+      case 'lt':
+      case 'lte':
+      case 'gt':
+      case 'gte':
+        conditions.push(
+          Prisma.sql`${ref} ${Prisma.raw(RANGE_OPERATORS[operator])} ${operand}`
+        )
+        break
+      case 'has':
+        conditions.push(Prisma.sql`${operand} = ANY(${ref})`)
+        break
+      default:
+        unsupported(`${field}.${operator}`)
+    }
+  }
+
+  return joinConditions(conditions, 'AND')
+}
+
+function buildRelationCondition(
+  relation: string,
+  value: { some?: object; none?: object }
+) {
+  const matches = Object.entries(value).filter(
+    ([, filter]) => filter !== undefined
+  )
+  if (
+    matches.length !== 1 ||
+    !['some', 'none'].includes(matches[0][0]) ||
+    Object.keys(matches[0][1]).length > 0
+  ) {
+    unsupported(`${relation} can only be { some: {} } or { none: {} }`)
+  }
+
+  const exists = Prisma.sql`EXISTS (SELECT 1 FROM ${Prisma.raw(
+    `"${RELATION_TABLES[relation]}"`
+  )} WHERE "property_id" = "property"."id")`
+  return matches[0][0] === 'some' ? exists : Prisma.sql`NOT ${exists}`
+}
+
+/**
+ * SQL condition on the "property" table matching a Prisma where clause, so
+ * the search can filter in the same query instead of fetching every
+ * matching id first. Covers what the lead filters and search qualifiers
+ * produce; anything else throws.
+ */
+export function buildPropertyFilterSql(
+  where: Prisma.PropertyWhereInput
+): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue
+
+    if (key === 'AND' || key === 'OR' || key === 'NOT') {
+      const filters = value as
+        Prisma.PropertyWhereInput | Prisma.PropertyWhereInput[]
+      const parts = (Array.isArray(filters) ? filters : [filters]).map(
+        (filter) => buildPropertyFilterSql(filter)
+      )
+      conditions.push(
+        key === 'NOT'
+          ? joinConditions(
+              parts.map((part) => Prisma.sql`NOT ${part}`),
+              'AND'
+            )
+          : joinConditions(parts, key)
+      )
+    } else if (Object.hasOwn(RELATION_TABLES, key)) {
+      conditions.push(
+        buildRelationCondition(key, value as { some?: object; none?: object })
+      )
+    } else {
+      conditions.push(buildFieldCondition(key, value))
+    }
+  }
+
+  return joinConditions(conditions, 'AND')
+}
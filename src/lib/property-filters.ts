@@ -0,0 +1,144 @@
+import type { Prisma } from '@prisma/client'
+
+/**
+ * Filters for the workbench lead lists. They live in the URL so a filtered
+ * view can be shared.
+ */
+export interface PropertyFilters {
+  state?: string
+  city?: string
+  zipcode?: string
+  minPrice?: number
+  maxPrice?: number
+  minDays?: number
+  maxDays?: number
+  listingStatus?: string
+  agentBadgeType?: string
+  hasGeneratedImages?: boolean
+}
+
+type SearchParamsInput =
+  URLSearchParams | Record<string, string | string[] | undefined>
+
+// URL parameter used for each filter
+const FILTER_PARAMS = {
+  state: 'state',
+  city: 'city',
+  zipcode: 'zip',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  minDays: 'minDays',
+  maxDays: 'maxDays',
+  listingStatus: 'status',
+  agentBadgeType: 'badge',
+  hasGeneratedImages: 'generated',
+} as const satisfies Record<keyof PropertyFilters, string>
+
+const NUMBER_FILTERS = ['minPrice', 'maxPrice', 'minDays', 'maxDays'] as const
+
+function getParam(params: SearchParamsInput, name: string) {
+  const value =
+    params instanceof URLSearchParams ? params.get(name) : params[name]
+  const text = Array.isArray(value) ? value[0] : value
+  return text?.trim() || undefined
+}
+
+/**
+ * Read the filters out of the page's search params, ignoring values that
+ * don't parse
+ */
+export function parsePropertyFilters(
+  params: SearchParamsInput
+): PropertyFilters {
+  const filters: PropertyFilters = {
+    state: getParam(params, FILTER_PARAMS.state),
+    city: getParam(params, FILTER_PARAMS.city),
+    zipcode: getParam(params, FILTER_PARAMS.zipcode),
+    listingStatus: getParam(params, FILTER_PARAMS.listingStatus),
+    agentBadgeType: getParam(params, FILTER_PARAMS.agentBadgeType),
+  }
+
+  for (const key of NUMBER_FILTERS) {
+    const text = getParam(params, FILTER_PARAMS[key])
+    const value = Number(text)
+    if (text && Number.isFinite(value)) {
+      filters[key] = value
+    }
+  }
+
+  const generated = getParam(params, FILTER_PARAMS.hasGeneratedImages)
+  if (generated === '1' || generated === '0') {
+    filters.hasGeneratedImages = generated === '1'
+  }
+
+  return filters
+}
+
+/**
+ * Write the filters into search params, replacing any filters already there
+ * and keeping unrelated params
+ */
+export function applyPropertyFilters(
+  params: URLSearchParams,
+  filters: PropertyFilters
+) {
+  const next = new URLSearchParams(params)
+
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = filters[key as keyof PropertyFilters]
+    if (value === undefined || value === '') {
+      next.delete(param)
+    } else if (typeof value === 'boolean') {
+      next.set(param, value ? '1' : '0')
+    } else {
+      next.set(param, String(value))
+    }
+  }
+
+  return next
+}
+
+/**
+ * Number of filters that are set
+ */
+export function countActiveFilters(filters: PropertyFilters) {
+  return Object.values(filters).filter((value) => value !== undefined).length
+}
+
+/**
+ * Prisma where clause matching the filters
+ */
+export function buildPropertyWhere(
+  filters: PropertyFilters
+): Prisma.PropertyWhereInput {
+  const where: Prisma.PropertyWhereInput = {}
+
+  if (filters.state) {
+    where.state = { equals: filters.state, mode: 'insensitive' }
+  }
+  if (filters.city) {
+    where.city = { contains: filters.city, mode: 'insensitive' }
+  }
+  if (filters.zipcode) {
+    where.zipcode = { startsWith: filters.zipcode }
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    where.price = { gte: filters.minPrice, lte: filters.maxPrice }
+  }
+  if (filters.minDays !== undefined || filters.maxDays !== undefined) {
+    where.days_on_zillow = { gte: filters.minDays, lte: filters.maxDays }
+  }
+  if (filters.listingStatus) {
+    where.listing_status = filters.listingStatus
+  }
+  if (filters.agentBadgeType) {
+    where.agent_badge_type = filters.agentBadgeType
+  }
+  if (filters.hasGeneratedImages !== undefined) {
+    where.generated_images = filters.hasGeneratedImages
+      ? { some: {} }
+      : { none: {} }
+  }
+
+  return where
+}
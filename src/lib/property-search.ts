@@ -0,0 +1,378 @@
+import { Prisma } from '@prisma/client'
+import { buildPropertyFilterSql, escapeLike } from '@/lib/property-filter-sql'
+import { prisma } from '@/lib/prisma'
+
+export const SEARCH_PAGE_SIZE = 25
+
+// Lower than pg_trgm's default of 0.6 so typos in longer words still match
+const WORD_SIMILARITY_THRESHOLD = 0.4
+
+// Shortest run of digits treated as a phone number search
+const MIN_PHONE_DIGITS = 3
+
+// Must match the expression indexes in the add_property_search,
+// add_property_notes and add_phone_e164 migrations. The E.164 form holds
+// only digits after the +, so any formatting of them matches; numbers that
+// could not be parsed fall back to their own digits.
+const PHONE_DIGITS = Prisma.raw(
+  `coalesce("phone_e164", regexp_replace("phone_number", '\\D', '', 'g'))`
+)
+const SEARCH_DOCUMENT = Prisma.raw(
+  `to_tsvector('simple'::regconfig, coalesce("street_address", '') || ' ' || coalesce("city", '') || ' ' || coalesce("zipcode", '') || ' ' || coalesce("display_name", '') || ' ' || coalesce("business_name", ''))`
+)
+const NOTE_DOCUMENT = Prisma.raw(`to_tsvector('simple'::regconfig, "body")`)
+
+// Notes of the property in the outer query
+const PROPERTY_NOTES = Prisma.raw(
+  `"property_note" WHERE "property_note"."property_id" = "property"."id"`
+)
+
+// Text columns matched with trigrams, in the order they are reported
+const TEXT_FIELDS = [
+  'street_address',
+  'city',
+  'zipcode',
+  'display_name',
+  'business_name',
+] as const
+
+export type SearchField =
+  (typeof TEXT_FIELDS)[number] | 'notes' | 'phone_number' | 'id'
+
+export interface PropertySearchResult {
+  id: number
+  street_address: string | null
+  city: string | null
+  state: string | null
+  zipcode: string | null
+  display_name: string | null
+  business_name: string | null
+  phone_number: string | null
+  stage: string
+  created_at: Date
+  updated_at: Date
+  matchedFields: SearchField[]
+  notesExcerpt: string | null
+}
+
+export interface PropertySearchPage {
+  results: PropertySearchResult[]
+  // Words to highlight in the results
+  terms: string[]
+  nextOffset: number | null
+}
+
+interface SearchRow extends Omit<
+  PropertySearchResult,
+  'matchedFields' | 'notesExcerpt'
+> {
+  notes: string | null
+  matched_fields: SearchField[]
+}
+
+interface ParsedSearch {
+  text: string
+  exact: boolean
+  digits: string | null
+  id: number | null
+}
+
+function parseSearchTerm(searchTerm: string): ParsedSearch {
+  const trimmed = searchTerm.trim()
+  const quoted = trimmed.match(/^"(.*)"$/)
+  const text = (quoted ? quoted[1] : trimmed).trim()
+  const digits = text.replace(/\D/g, '')
+  const id = /^\d+$/.test(text) ? Number(text) : null
+
+  return {
+    text,
+    exact: quoted !== null,
+    // Only look at phone digits when the term looks like a phone number
+    digits:
+      digits.length >= MIN_PHONE_DIGITS && /^[\d\s().+-]+$/.test(text)
+        ? digits
+        : null,
+    id: id !== null && id <= 2147483647 ? id : null,
+  }
+}
+
+/**
+ * Short piece of the notes around the first matching word
+ */
+function getExcerpt(text: string, terms: string[], radius = 60) {
+  const lower = text.toLowerCase()
+  const positions = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((position) => position >= 0)
+  const position = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, position - radius)
+  const end = Math.min(text.length, position + radius)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+    end < text.length ? '…' : ''
+  }`
+}
+
+const RESULT_SELECT = {
+  id: true,
+  street_address: true,
+  city: true,
+  state: true,
+  zipcode: true,
+  display_name: true,
+  business_name: true,
+  phone_number: true,
+  stage: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.PropertySelect
+
+/**
+ * `filter` narrowed to properties that are not in the trash
+ */
+function withoutTrashed(
+  filter: Prisma.PropertyWhereInput
+): Prisma.PropertyWhereInput {
+  return { AND: [filter, { deleted_at: null }] }
+}
+
+/**
+ * Properties matching `where`, most recently updated first, for queries
+ * with no free text to rank by
+ */
+async function findFilteredProperties(
+  where: Prisma.PropertyWhereInput,
+  offset: number
+): Promise<PropertySearchPage> {
+  const rows = await prisma.property.findMany({
+    where: withoutTrashed(where),
+    select: RESULT_SELECT,
+    orderBy: { updated_at: 'desc' },
+    skip: offset,
+    take: SEARCH_PAGE_SIZE + 1,
+  })
+
+  return {
+    results: rows
+      .slice(0, SEARCH_PAGE_SIZE)
+      .map((row) => ({ ...row, matchedFields: [], notesExcerpt: null })),
+    terms: [],
+    nextOffset:
+      rows.length > SEARCH_PAGE_SIZE ? offset + SEARCH_PAGE_SIZE : null,
+  }
+}
+
+/**
+ * SQL conditions for each way a property can match the search
+ */
+function buildMatchConditions(search: ParsedSearch) {
+  const pattern = `%${escapeLike(search.text)}%`
+  const query = Prisma.sql`websearch_to_tsquery('simple', ${
+    search.exact ? `"${search.text}"` : search.text
+  })`
+
+  const idMatch =
+    search.id !== null ? Prisma.sql`"id" = ${search.id}` : Prisma.sql`false`
+  const phoneMatch =
+    search.digits !== null
+      ? Prisma.sql`${PHONE_DIGITS} LIKE ${`%${search.digits}%`}`
+      : Prisma.sql`false`
+  const matchText = (column: Prisma.Sql) =>
+    search.exact
+      ? Prisma.sql`${column} ILIKE ${pattern}`
+      : Prisma.sql`(${column} ILIKE ${pattern} OR ${search.text} <% ${column})`
+  const fieldMatches = TEXT_FIELDS.map((field) =>
+    matchText(Prisma.raw(`"${field}"`))
+  )
+
+  // Matches one note, inside a query over the property's notes
+  const noteMatch = Prisma.sql`(${NOTE_DOCUMENT} @@ ${query} OR ${matchText(
+    Prisma.raw(`"body"`)
+  )})`
+  const notesMatch = Prisma.sql`EXISTS (SELECT 1 FROM ${PROPERTY_NOTES} AND ${noteMatch})`
+
+  const anyMatch = Prisma.sql`(${idMatch} OR ${phoneMatch} OR ${SEARCH_DOCUMENT} @@ ${query} OR ${notesMatch} OR ${Prisma.join(
+    fieldMatches,
+    ' OR '
+  )})`
+
+  return {
+    query,
+    idMatch,
+    phoneMatch,
+    fieldMatches,
+    noteMatch,
+    notesMatch,
+    anyMatch,
+  }
+}
+
+/**
+ * Condition limiting the search to properties matching `filter` that are
+ * not in the trash
+ */
+function getAllowedCondition(filter: Prisma.PropertyWhereInput | null) {
+  return filter
+    ? Prisma.sql`"deleted_at" IS NULL AND ${buildPropertyFilterSql(filter)}`
+    : Prisma.sql`"deleted_at" IS NULL`
+}
+
+// The threshold only applies inside the transaction it runs in
+function setSimilarityThreshold() {
+  return prisma.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(
+    WORD_SIMILARITY_THRESHOLD
+  )}, true)`
+}
+
+/**
+ * Number of properties `searchPropertyIndex` would find
+ */
+export async function countPropertyIndex(
+  searchTerm: string,
+  filter: Prisma.PropertyWhereInput | null = null
+) {
+  const search = parseSearchTerm(searchTerm)
+  if (!search.text) {
+    return filter ? prisma.property.count({ where: withoutTrashed(filter) }) : 0
+  }
+
+  const allowed = getAllowedCondition(filter)
+  const { anyMatch } = buildMatchConditions(search)
+  const [, rows] = await prisma.$transaction([
+    setSimilarityThreshold(),
+    prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT count(*) AS "count" FROM "property"
+      WHERE ${anyMatch} AND ${allowed}
+    `,
+  ])
+
+  return Number(rows[0].count)
+}
+
+/**
+ * IDs of every property `searchPropertyIndex` would find, for acting on all
+ * of the results at once
+ */
+export async function getPropertyIndexIds(
+  searchTerm: string,
+  filter: Prisma.PropertyWhereInput | null = null
+) {
+  const search = parseSearchTerm(searchTerm)
+  if (!search.text) {
+    if (!filter) return []
+    const properties = await prisma.property.findMany({
+      where: withoutTrashed(filter),
+      select: { id: true },
+    })
+    return properties.map(({ id }) => id)
+  }
+
+  const allowed = getAllowedCondition(filter)
+  const { anyMatch } = buildMatchConditions(search)
+  const [, rows] = await prisma.$transaction([
+    setSimilarityThreshold(),
+    prisma.$queryRaw<{ id: number }[]>`
+      SELECT "id" FROM "property"
+      WHERE ${anyMatch} AND ${allowed}
+    `,
+  ])
+
+  return rows.map(({ id }) => id)
+}
+
+/**
+ * Ranked search over address, city, zipcode, agent, phone digits and notes.
+ * Combines full-text rank with trigram similarity so both whole words and
+ * typos or partial words are found. Quoted terms skip the fuzzy matching.
+ * Results can be narrowed with a where clause from the query's qualifiers.
+ */
+export async function searchPropertyIndex(
+  searchTerm: string,
+  {
+    where: filter = null,
+    offset = 0,
+  }: { where?: Prisma.PropertyWhereInput | null; offset?: number } = {}
+): Promise<PropertySearchPage> {
+  const search = parseSearchTerm(searchTerm)
+  const terms = search.exact
+    ? [search.text]
+    : search.text.split(/\s+/).filter(Boolean)
+
+  if (!search.text) {
+    return filter
+      ? findFilteredProperties(filter, offset)
+      : { results: [], terms, nextOffset: null }
+  }
+
+  const allowed = getAllowedCondition(filter)
+  const {
+    query,
+    idMatch,
+    phoneMatch,
+    fieldMatches,
+    noteMatch,
+    notesMatch,
+    anyMatch,
+  } = buildMatchConditions(search)
+  const where = Prisma.sql`${anyMatch} AND ${allowed}`
+
+  const similarity = Prisma.join([
+    ...TEXT_FIELDS.map(
+      (field) =>
+        Prisma.sql`word_similarity(${search.text}, ${Prisma.raw(`"${field}"`)})`
+    ),
+    Prisma.sql`(SELECT max(word_similarity(${search.text}, "body")) FROM ${PROPERTY_NOTES})`,
+  ])
+
+  const matchedFields = Prisma.join([
+    Prisma.sql`CASE WHEN ${idMatch} THEN 'id' END`,
+    Prisma.sql`CASE WHEN ${phoneMatch} THEN 'phone_number' END`,
+    ...TEXT_FIELDS.map(
+      (field, index) =>
+        Prisma.sql`CASE WHEN ${fieldMatches[index]} THEN ${field} END`
+    ),
+    Prisma.sql`CASE WHEN ${notesMatch} THEN 'notes' END`,
+  ])
+
+  // The note shown as an excerpt: pinned first, then the latest
+  const matchingNote = Prisma.sql`(SELECT "body" FROM ${PROPERTY_NOTES} AND ${noteMatch}
+    ORDER BY "is_pinned" DESC, "created_at" DESC LIMIT 1)`
+
+  const [, rows] = await prisma.$transaction([
+    setSimilarityThreshold(),
+    prisma.$queryRaw<SearchRow[]>`
+      SELECT "id", "street_address", "city", "state", "zipcode",
+        "display_name", "business_name", "phone_number", "stage",
+        "created_at", "updated_at", ${matchingNote} AS "notes",
+        array_remove(ARRAY[${matchedFields}]::text[], NULL) AS "matched_fields"
+      FROM "property"
+      WHERE ${where}
+      ORDER BY
+        (CASE WHEN ${idMatch} THEN 10 ELSE 0 END)
+          + (CASE WHEN ${phoneMatch} THEN 1 ELSE 0 END)
+          + ts_rank(${SEARCH_DOCUMENT}, ${query}) * 2
+          + coalesce(greatest(${similarity}), 0) DESC,
+        "updated_at" DESC
+      LIMIT ${SEARCH_PAGE_SIZE + 1}
+      OFFSET ${offset}
+    `,
+  ])
+
+  const results = rows
+    .slice(0, SEARCH_PAGE_SIZE)
+    .map(({ notes, matched_fields, ...row }) => ({
+      ...row,
+      matchedFields: matched_fields,
+      notesExcerpt:
+        notes && matched_fields.includes('notes')
+          ? getExcerpt(notes, terms)
+          : null,
+    }))
+
+  return {
+    results,
+    terms,
+    nextOffset:
+      rows.length > SEARCH_PAGE_SIZE ? offset + SEARCH_PAGE_SIZE : null,
+  }
+}
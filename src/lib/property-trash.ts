@@ -0,0 +1,86 @@
+import { recordActivity } from '@/lib/activity'
+import { prisma } from '@/lib/prisma'
+
+const DEFAULT_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Days a deleted property stays in the trash before it is purged, set with
+ * PROPERTY_TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays() {
+  const days = Number(process.env.PROPERTY_TRASH_RETENTION_DAYS)
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * When a property deleted at `deletedAt` will be purged
+ */
+export function getPurgeDate(deletedAt: Date, retentionDays: number) {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS)
+}
+
+/**
+ * Permanently delete trashed properties and all their related records in
+ * one transaction. Properties that are not in the trash are left alone.
+ * The purge is logged against `userId`, or the system when there is none.
+ */
+export async function purgePropertyRecords(
+  ids: number[],
+  userId?: string | null
+) {
+  return prisma.$transaction(async (tx) => {
+    const trashed = await tx.property.findMany({
+      where: { id: { in: ids }, deleted_at: { not: null } },
+      select: { id: true, street_address: true, city: true, state: true },
+    })
+    const trashedIds = trashed.map(({ id }) => id)
+
+    // The log keeps the address once the property itself is gone
+    await recordActivity(
+      userId,
+      trashed.map(({ id, ...address }) => ({
+        propertyId: id,
+        action: 'purge',
+        before: address,
+      })),
+      tx
+    )
+
+    // Delete related images first (foreign key constraints)
+    await tx.otherImage.deleteMany({
+      where: { property_id: { in: trashedIds } },
+    })
+
+    await tx.generatedImage.deleteMany({
+      where: { property_id: { in: trashedIds } },
+    })
+
+    await tx.unstagedImage.deleteMany({
+      where: { property_id: { in: trashedIds } },
+    })
+
+    // Delete the properties themselves
+    const { count } = await tx.property.deleteMany({
+      where: { id: { in: trashedIds } },
+    })
+    return count
+  })
+}
+
+/**
+ * Purge every property that has been in the trash longer than the
+ * retention period
+ */
+export async function purgeExpiredProperties(now = new Date()) {
+  const retentionDays = getTrashRetentionDays()
+  const expired = await prisma.property.findMany({
+    where: {
+      deleted_at: { lt: new Date(now.getTime() - retentionDays * DAY_MS) },
+    },
+    select: { id: true },
+  })
+
+  const count = await purgePropertyRecords(expired.map(({ id }) => id))
+  return { count, retentionDays }
+}
@@ -0,0 +1,364 @@
+import type { Prisma } from '@prisma/client'
+import { LEAD_STAGE_IDS, LeadStage } from '@/lib/lead-stages'
+
+/**
+ * Thrown for search queries that can't be parsed. The message is written
+ * to be shown to the user as is.
+ */
+export class SearchQueryError extends Error {}
+
+/**
+ * Field qualifiers understood by the search box, e.g. `state:CA`. Any
+ * qualifier can be negated with a leading `-`.
+ */
+export const SEARCH_QUALIFIERS = {
+  id: { description: 'Property ID', example: 'id:123' },
+  state: { description: 'State', example: 'state:CA' },
+  city: { description: 'City contains', example: 'city:"San Diego"' },
+  zip: { description: 'Zipcode starts with', example: 'zip:921' },
+  price: { description: 'Price', example: 'price:<500000' },
+  dom: { description: 'Days on Zillow', example: 'dom:>60' },
+  stage: { description: 'Pipeline stage', example: 'stage:new' },
+  status: { description: 'Listing status', example: 'status:FOR_SALE' },
+  agent: { description: 'Agent or business name', example: 'agent:"Jane Doe"' },
+  badge: { description: 'Agent badge type', example: 'badge:"Premier Agent"' },
+  source: { description: 'Import source', example: 'source:csv' },
+  tag: { description: 'Tagged with', example: 'tag:"follow up"' },
+  has: { description: 'Has a value or images', example: 'has:generated' },
+} as const satisfies Record<string, { description: string; example: string }>
+
+export type SearchQualifier = keyof typeof SEARCH_QUALIFIERS
+
+const QUALIFIER_NAMES = Object.keys(SEARCH_QUALIFIERS) as SearchQualifier[]
+
+// Values for `has:`
+const HAS_CONDITIONS = {
+  generated: { generated_images: { some: {} } },
+  images: { unstaged_images: { some: {} } },
+  notes: { notes: { some: {} } },
+  phone: {
+    AND: [{ phone_number: { not: null } }, { phone_number: { not: '' } }],
+  },
+  agent: { display_name: { not: null } },
+  price: { price: { not: null } },
+} satisfies Record<string, Prisma.PropertyWhereInput>
+
+type HasValue = keyof typeof HAS_CONDITIONS
+
+const HAS_VALUES = Object.keys(HAS_CONDITIONS) as HasValue[]
+
+export interface ParsedSearchQuery {
+  // Free text left once the qualifiers are taken out
+  text: string
+  // Conditions from the qualifiers, or null when there are none
+  where: Prisma.PropertyWhereInput | null
+}
+
+interface NumberRange {
+  equals?: number
+  lt?: number
+  lte?: number
+  gt?: number
+  gte?: number
+}
+
+interface Token {
+  // The token as typed
+  raw: string
+  value: string
+  // Set for `name:value` tokens
+  qualifier?: string
+  negated: boolean
+  quoted: boolean
+}
+
+/**
+ * Split the query on whitespace, keeping quoted values together
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)("?)|(\S*))/gi
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [raw, minus, qualifier, quotedValue, closingQuote, bareValue] = match
+    if (!raw) {
+      // Step over the whitespace between words
+      pattern.lastIndex++
+      continue
+    }
+    if (quotedValue !== undefined && !closingQuote) {
+      throw new SearchQueryError(`Missing closing quote after ${raw}`)
+    }
+
+    const value = quotedValue ?? bareValue ?? ''
+    tokens.push({
+      raw,
+      // A leading minus is only special before a qualifier
+      value: qualifier === undefined ? `${minus}${value}` : value,
+      qualifier: qualifier?.toLowerCase(),
+      negated: minus === '-' && qualifier !== undefined,
+      quoted: quotedValue !== undefined,
+    })
+  }
+
+  return tokens
+}
+
+/**
+ * Parse amounts such as 500000, $500,000 or 500k
+ */
+function parseAmount(text: string, wholeNumbers = false) {
+  const match = text.replace(/[$,]/g, '').match(/^(\d+(?:\.\d+)?)([km]?)$/i)
+  if (!match) return null
+
+  const multiplier = { '': 1, k: 1_000, m: 1_000_000 }[
+    match[2].toLowerCase() as '' | 'k' | 'm'
+  ]
+  const amount = Number(match[1]) * multiplier
+  return wholeNumbers && !Number.isInteger(amount) ? null : amount
+}
+
+/**
+ * Range filter for `<n`, `<=n`, `>n`, `>=n`, `a..b` or an exact number
+ */
+function parseRange(
+  name: string,
+  value: string,
+  { wholeNumbers = false } = {}
+): NumberRange {
+  const invalid = () =>
+    new SearchQueryError(
+      `${name}: expects a number or range, e.g. ${name}:<500, ${name}:>=10 or ${name}:10..20`
+    )
+
+  const between = value.match(/^(.*)\.\.(.*)$/)
+  if (between) {
+    const min = between[1] ? parseAmount(between[1], wholeNumbers) : undefined
+    const max = between[2] ? parseAmount(between[2], wholeNumbers) : undefined
+    if (
+      min === null ||
+      max === null ||
+      (min === undefined && max === undefined)
+    ) {
+      throw invalid()
+    }
+    return { gte: min, lte: max }
+  }
+
+  const comparison = value.match(/^(<=|>=|<|>)?(.+)$/)
+  const amount = comparison ? parseAmount(comparison[2], wholeNumbers) : null
+  if (!comparison || amount === null) throw invalid()
+
+  switch (comparison[1]) {
+    case '<':
+      return { lt: amount }
+    case '<=':
+      return { lte: amount }
+    case '>':
+      return { gt: amount }
+    case '>=':
+      return { gte: amount }
+    default:
+      return { equals: amount }
+  }
+}
+
+function buildCondition(
+  name: SearchQualifier,
+  value: string
+): Prisma.PropertyWhereInput {
+  switch (name) {
+    case 'id': {
+      if (!/^\d+$/.test(value) || Number(value) > 2147483647) {
+        throw new SearchQueryError(`id: expects a property ID, e.g. id:123`)
+      }
+      return { id: Number(value) }
+    }
+    case 'state':
+      return { state: { equals: value, mode: 'insensitive' } }
+    case 'city':
+      return { city: { contains: value, mode: 'insensitive' } }
+    case 'zip':
+      return { zipcode: { startsWith: value } }
+    case 'price':
+      return { price: parseRange(name, value) }
+    case 'dom':
+      return { days_on_zillow: parseRange(name, value, { wholeNumbers: true }) }
+    case 'stage': {
+      const stage = value.toLowerCase()
+      if (!LEAD_STAGE_IDS.includes(stage as LeadStage)) {
+        throw new SearchQueryError(
+          `Unknown stage '${value}'. Use one of: ${LEAD_STAGE_IDS.join(', ')}`
+        )
+      }
+      return { stage }
+    }
+    case 'status':
+      return { listing_status: { equals: value, mode: 'insensitive' } }
+    case 'agent':
+      return {
+        OR: [
+          { display_name: { contains: value, mode: 'insensitive' } },
+          { business_name: { contains: value, mode: 'insensitive' } },
+        ],
+      }
+    case 'badge':
+      return { agent_badge_type: { equals: value, mode: 'insensitive' } }
+    case 'source':
+      return { source: { equals: value, mode: 'insensitive' } }
+    case 'tag':
+      // Tags are stored lowercase
+      return { tags: { has: value.toLowerCase() } }
+    case 'has': {
+      const key = value.toLowerCase()
+      if (!HAS_VALUES.includes(key as HasValue)) {
+        throw new SearchQueryError(
+          `Unknown value has:${value}. Use one of: ${HAS_VALUES.join(', ')}`
+        )
+      }
+      return HAS_CONDITIONS[key as HasValue]
+    }
+  }
+}
+
+function isQualifier(name: string): name is SearchQualifier {
+  return QUALIFIER_NAMES.includes(name as SearchQualifier)
+}
+
+/**
+ * Number of single letter insertions, deletions and substitutions that turn
+ * one word into the other
+ */
+function getEditDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * The qualifier a name is probably a typo or longer form of, such as
+ * `stat:` or `zipcode:`. Other names, as in `http://` or `Unit:4B`, are
+ * free text.
+ */
+function findNearQualifier(name: string) {
+  return QUALIFIER_NAMES.find(
+    (qualifier) =>
+      getEditDistance(name, qualifier) <= (name.length >= 5 ? 2 : 1) ||
+      (qualifier.length >= 3 && name.startsWith(qualifier))
+  )
+}
+
+/**
+ * Parse a search box query such as
+ * `state:CA price:<500000 stage:new agent:"Jane Doe" -has:notes maple`
+ * into free text and a Prisma where clause for the qualifiers
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const words: string[] = []
+  const conditions: Prisma.PropertyWhereInput[] = []
+
+  for (const token of tokenize(input)) {
+    if (token.qualifier === undefined) {
+      words.push(token.quoted ? `"${token.value}"` : token.value)
+      continue
+    }
+
+    if (!isQualifier(token.qualifier)) {
+      const nearQualifier = findNearQualifier(token.qualifier)
+      if (!nearQualifier) {
+        words.push(token.raw)
+        continue
+      }
+      throw new SearchQueryError(
+        `Unknown field '${token.qualifier}:'. Did you mean ${nearQualifier}:? Use one of: ${QUALIFIER_NAMES.map(
+          (name) => `${name}:`
+        ).join(' ')}`
+      )
+    }
+    if (!token.value.trim()) {
+      throw new SearchQueryError(
+        `${token.qualifier}: needs a value, e.g. ${SEARCH_QUALIFIERS[token.qualifier].example}`
+      )
+    }
+
+    const condition = buildCondition(token.qualifier, token.value.trim())
+    conditions.push(token.negated ? { NOT: condition } : condition)
+  }
+
+  return {
+    text: words.join(' '),
+    where: conditions.length > 0 ? { AND: conditions } : null,
+  }
+}
+
+export interface SearchSuggestion {
+  // Text that replaces the word being typed
+  value: string
+  label: string
+  description: string
+}
+
+/**
+ * Suggestions for the last word of the query: field names while typing a
+ * name, then known values for `stage:` and `has:`
+ */
+export function getSearchSuggestions(input: string): SearchSuggestion[] {
+  const word = input.match(/(?:^|\s)(-?)([a-z]*)(:?)([a-z-]*)$/i)
+  if (!word) return []
+
+  const [, minus, name, colon, value] = word
+  const lowerName = name.toLowerCase()
+
+  if (!colon) {
+    if (!name) return []
+    return QUALIFIER_NAMES.filter(
+      (qualifier) => qualifier.startsWith(lowerName) && qualifier !== lowerName
+    ).map((qualifier) => ({
+      value: `${minus}${qualifier}:`,
+      label: `${minus}${qualifier}:`,
+      description: `${SEARCH_QUALIFIERS[qualifier].description} — ${SEARCH_QUALIFIERS[qualifier].example}`,
+    }))
+  }
+
+  const values: readonly string[] =
+    lowerName === 'stage'
+      ? LEAD_STAGE_IDS
+      : lowerName === 'has'
+        ? HAS_VALUES
+        : []
+
+  return values
+    .filter(
+      (option) =>
+        option.startsWith(value.toLowerCase()) && option !== value.toLowerCase()
+    )
+    .map((option) => ({
+      value: `${minus}${lowerName}:${option}`,
+      label: option,
+      description: SEARCH_QUALIFIERS[lowerName as 'stage' | 'has'].description,
+    }))
+}
+
+/**
+ * Replace the word being typed with a suggestion
+ */
+export function applySearchSuggestion(
+  input: string,
+  suggestion: SearchSuggestion
+) {
+  const start = input.search(/\S*$/)
+  const next = input.slice(0, start) + suggestion.value
+  // Field names are followed straight away by their value
+  return next.endsWith(':') ? next : `${next} `
+}
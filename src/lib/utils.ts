@@ -10,3 +10,44 @@ export function getS3ImageUrl(imagePath: string): string {
   // Return the complete URL
   return `${baseUrl}${imagePath}`
 }
+
+/**
+ * How much a property's price fell at its last price change
+ * @param property - The current and previous price of the property
+ * @returns The amount of the drop, or null if the price did not drop
+ */
+export function getPriceDrop(property: {
+  price: number | null
+  previous_price: number | null
+}): number | null {
+  if (property.price === null || property.previous_price === null) {
+    return null
+  }
+  const drop = property.previous_price - property.price
+  return drop > 0 ? drop : null
+}
+
+/**
+ * Turns comma separated text into property tags
+ * @param text - Tags as typed, e.g. "Jane Doe, follow up"
+ * @returns Lowercase, trimmed tags without duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+/**
+ * Parses a database id from a URL segment or search param
+ * @param text - The id as written, e.g. "123"
+ * @returns The id, or null unless the text is a whole number that fits an
+ * integer column
+ */
+export function parseId(text: string | null | undefined): number | null {
+  if (!text || !/^\d+$/.test(text)) return null
+  const id = Number(text)
+  return id > 0 && id <= 2147483647 ? id : null
+}